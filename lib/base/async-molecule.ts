@@ -0,0 +1,60 @@
+import { type Atom, atom } from './atom';
+import { registerDisposal } from './graph';
+import { molecule } from './molecule';
+import { get, set } from './ops';
+import type { Particle } from './particle';
+
+/**
+ * Represents the current state of an asynchronous computation, along with its value or error once it settles.
+ */
+export type Loadable<T> =
+  | { state: 'pending'; value: null; error: null }
+  | { state: 'success'; value: T; error: null }
+  | { state: 'error'; value: null; error: unknown };
+
+const PENDING = { state: 'pending', value: null, error: null } as const;
+
+/**
+ * Creates a new particle representing an asynchronous molecule with the given factory function.
+ * Particles read by the factory before its first `await` are tracked as the molecule's dependencies,
+ * and every change to them re-runs the factory, aborting the signal passed to its previous (stale) run.
+ *
+ * @param factory An asynchronous function computing the value of the molecule, given an `AbortSignal` for the current run.
+ * @returns A {@link Particle} whose value is a {@link Loadable} representing the state of the latest run.
+ */
+export function asyncMolecule<T>(
+  factory: (signal: AbortSignal) => Promise<T>,
+): Particle<Loadable<T>> {
+  let controller: AbortController | null = null;
+  const runs = molecule(() => {
+    controller?.abort();
+    controller = new AbortController();
+    const { signal } = controller;
+    return [factory(signal), signal] as const;
+  });
+  const loadables = new WeakMap<object, Atom<Loadable<T>>>();
+
+  registerDisposal(() => controller?.abort());
+
+  return molecule(() => {
+    const run = get(runs);
+    let loadable = loadables.get(run);
+    if (!loadable) {
+      const [promise, signal] = run;
+      const current = atom<Loadable<T>>(PENDING);
+      promise.then(
+        (value) => {
+          if (signal.aborted) return;
+          set(current, { state: 'success', value, error: null });
+        },
+        (error) => {
+          if (signal.aborted) return;
+          set(current, { state: 'error', value: null, error });
+        },
+      );
+      loadables.set(run, current);
+      loadable = current;
+    }
+    return get(loadable);
+  });
+}
@@ -1,12 +1,34 @@
 import { expect, mock, test } from 'bun:test';
 import {
+  type WaveScheduler,
   async,
+  asyncMolecule,
   atom,
+  atomArray,
+  atomFamily,
+  atomMap,
+  atomSet,
+  batch,
+  deepEqual,
+  defaultSerializer,
+  focus,
   get,
+  getDependencies,
+  getDependents,
+  getName,
+  hydrate,
   isParticle,
   molecule,
+  moleculeFamily,
+  onCleanup,
+  onParticleEvent,
   peek,
+  scope,
   set,
+  setErrorHandler,
+  shallowEqual,
+  snapshot,
+  store,
   synth,
   wave,
 } from '.';
@@ -117,6 +139,91 @@ test('molecule referential equality', () => {
   expect(get(style)).toEqual({ color: 'red' });
 });
 
+test('glitch-free diamond propagation', () => {
+  const a = atom(1);
+  const b = molecule(() => get(a) * 2);
+  const c = molecule(() => get(a) * 3);
+  const compute = mock();
+  const d = molecule(() => {
+    compute(get(b), get(c));
+    return get(b) + get(c);
+  });
+  const m = mock();
+  wave(() => {
+    m(get(d), get(a));
+  });
+
+  expect(compute).toHaveBeenCalledTimes(1);
+  set(a, 2);
+  expect(compute).toHaveBeenCalledTimes(2);
+  expect(compute).toHaveBeenLastCalledWith(4, 6);
+  expect(m).toHaveBeenCalledTimes(2);
+  expect(m).toHaveBeenLastCalledWith(10, 2);
+});
+
+test('molecules are only recomputed when their dependencies change', () => {
+  const a = atom(0);
+  const parity = molecule(() => get(a) % 2);
+  const compute = mock();
+  const label = molecule(() => {
+    compute();
+    return get(parity) ? 'odd' : 'even';
+  });
+  const m = mock();
+  wave(() => {
+    m(get(label));
+  });
+
+  set(a, 2);
+  expect(compute).toHaveBeenCalledTimes(1);
+  expect(m).toHaveBeenCalledTimes(1);
+  set(a, 3);
+  expect(compute).toHaveBeenCalledTimes(2);
+  expect(m).toHaveBeenLastCalledWith('odd');
+});
+
+test('dynamic dependencies', () => {
+  const flag = atom(true);
+  const a = atom(0);
+  const b = atom(0);
+  const compute = mock();
+  const mol = molecule(() => {
+    compute();
+    return get(flag) ? get(a) : get(b);
+  });
+  const m = mock();
+  wave(() => {
+    m(get(mol));
+  });
+
+  set(flag, false);
+  expect(m).toHaveBeenLastCalledWith(0);
+  expect(compute).toHaveBeenCalledTimes(2);
+
+  set(a, 1);
+  expect(compute).toHaveBeenCalledTimes(2);
+
+  set(b, 2);
+  expect(compute).toHaveBeenCalledTimes(3);
+  expect(m).toHaveBeenLastCalledWith(2);
+});
+
+test('dynamic dependencies (waves)', () => {
+  const flag = atom(true);
+  const a = atom(0);
+  const m = mock();
+  wave(() => {
+    m(get(flag) && get(a));
+  });
+
+  set(a, 1);
+  expect(m).toHaveBeenCalledTimes(2);
+  set(flag, false);
+  expect(m).toHaveBeenCalledTimes(3);
+  set(a, 2);
+  expect(m).toHaveBeenCalledTimes(3);
+});
+
 test('async wave scheduler', async () => {
   const a = atom(0);
   const b = atom(0);
@@ -137,6 +244,70 @@ test('async wave scheduler', async () => {
   expect(get(c)).toBe(3);
 });
 
+test('custom wave scheduler without unregister', () => {
+  const effects = new Map<unknown, () => void>();
+  const queue = new Set<unknown>();
+  const scheduler: WaveScheduler = {
+    register(wave, effect) {
+      effects.set(wave, effect);
+    },
+    schedule(wave) {
+      queue.add(wave);
+    },
+  };
+  const runQueue = () => {
+    const waves = [...queue];
+    queue.clear();
+    for (const wave of waves) effects.get(wave)?.();
+  };
+  const a = atom(0);
+  const m = mock();
+  const stop = wave(() => {
+    m(get(a));
+  }, scheduler);
+  runQueue();
+  expect(m).toHaveBeenLastCalledWith(0);
+
+  set(a, 1);
+  stop();
+  runQueue();
+  expect(m).toHaveBeenCalledTimes(1);
+});
+
+test('batch', () => {
+  const a = atom(0);
+  const b = atom(0);
+  const c = atom(0);
+  const compute = mock();
+  const sum = molecule(() => {
+    compute();
+    return get(a) + get(b) + get(c);
+  });
+  const m = mock();
+  wave(() => {
+    m(get(sum));
+  });
+  const n = mock();
+  wave(() => {
+    n(get(a), get(b), get(c));
+  });
+
+  batch(() => {
+    set(a, 1);
+    batch(() => {
+      set(b, 2);
+    });
+    expect(n).toHaveBeenCalledTimes(1);
+    set(c, 3);
+  });
+
+  expect(compute).toHaveBeenCalledTimes(2);
+  expect(m).toHaveBeenCalledTimes(2);
+  expect(m).toHaveBeenLastCalledWith(6);
+  expect(n).toHaveBeenCalledTimes(2);
+  expect(n).toHaveBeenLastCalledWith(1, 2, 3);
+});
+
 function createStore(onUnsubscribe?: () => void) {
   let value = 0;
   const subscribers = new Set<() => void>();
@@ -214,3 +385,688 @@ test('synthetic atoms: resubscribe (external)', async () => {
 
   expect(peek(b)).toBe(4);
 });
+
+test('synthetic atoms: dynamic dependencies', () => {
+  const unsub = mock();
+  const store = createStore(unsub);
+  const flag = atom(true);
+  const a = synth(store.subscribe, store.getSnapshot, store.sendUpdate);
+  const compute = mock();
+  const b = molecule(() => {
+    compute();
+    return get(flag) ? get(a) : -1;
+  });
+  wave(() => {
+    get(b);
+  });
+
+  store.sendUpdate(1);
+  expect(compute).toHaveBeenCalledTimes(2);
+
+  set(flag, false);
+  expect(compute).toHaveBeenCalledTimes(3);
+
+  store.sendUpdate(2);
+  expect(compute).toHaveBeenCalledTimes(3);
+  expect(unsub).toHaveBeenCalledTimes(1);
+});
+
+test('custom equality', () => {
+  const count = atom(0);
+  const style = molecule(() => ({ color: get(count) > 10 ? 'red' : 'green' }), {
+    equals: shallowEqual,
+  });
+  const m = mock();
+  wave(() => {
+    m(get(style));
+  });
+
+  const currentStyle = get(style);
+  set(count, 5);
+  expect(get(style)).toBe(currentStyle);
+  expect(m).toHaveBeenCalledTimes(1);
+  set(count, 20);
+  expect(get(style)).toEqual({ color: 'red' });
+  expect(m).toHaveBeenCalledTimes(2);
+
+  const position = atom({ x: 0, y: [0] }, { equals: deepEqual });
+  const n = mock();
+  wave(() => {
+    n(get(position));
+  });
+  set(position, { x: 0, y: [0] });
+  expect(n).toHaveBeenCalledTimes(1);
+  set(position, { x: 0, y: [1] });
+  expect(n).toHaveBeenCalledTimes(2);
+});
+
+test('shallowEqual/deepEqual', () => {
+  expect(shallowEqual({ a: 1, b: 'x' }, { a: 1, b: 'x' })).toBeTrue();
+  expect(shallowEqual([1, 2], [1, 2])).toBeTrue();
+  expect(shallowEqual({ a: [1] }, { a: [1] })).toBeFalse();
+  expect(shallowEqual({ a: 1 }, { a: 1, b: 2 })).toBeFalse();
+  expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBeTrue();
+  expect(deepEqual(new Date(1), new Date(1))).toBeTrue();
+  expect(
+    deepEqual(new Map([[1, { a: 1 }]]), new Map([[1, { a: 1 }]])),
+  ).toBeTrue();
+  expect(deepEqual(new Set([1, 2]), new Set([2, 1]))).toBeTrue();
+  expect(deepEqual({ a: [1] }, { a: [2] })).toBeFalse();
+});
+
+test('wave cleanups', () => {
+  const a = atom(0);
+  const returned = mock();
+  const registered = mock();
+
+  function helper(value: number) {
+    onCleanup(() => registered(value));
+  }
+
+  const stop = wave(() => {
+    const value = get(a);
+    helper(value);
+    return () => returned(value);
+  });
+
+  expect(returned).not.toHaveBeenCalled();
+  expect(registered).not.toHaveBeenCalled();
+
+  set(a, 1);
+  expect(returned).toHaveBeenCalledTimes(1);
+  expect(returned).toHaveBeenLastCalledWith(0);
+  expect(registered).toHaveBeenLastCalledWith(0);
+
+  stop();
+  expect(returned).toHaveBeenCalledTimes(2);
+  expect(returned).toHaveBeenLastCalledWith(1);
+  expect(registered).toHaveBeenLastCalledWith(1);
+
+  stop();
+  expect(returned).toHaveBeenCalledTimes(2);
+  expect(() => onCleanup(() => {})).toThrow();
+});
+
+test('throwing wave cleanups', () => {
+  const a = atom(0);
+  const onError = mock();
+  const seen: number[] = [];
+  const stop = wave(
+    () => {
+      get(a);
+      onCleanup(() => {
+        throw new Error('cleanup');
+      });
+    },
+    { onError },
+  );
+  wave(() => {
+    seen.push(get(a));
+  });
+
+  set(a, 1);
+  set(a, 2);
+  expect(onError).toHaveBeenCalledTimes(2);
+  expect(seen).toEqual([0, 1, 2]);
+
+  stop();
+  expect(onError).toHaveBeenCalledTimes(3);
+  set(a, 3);
+  expect(seen).toEqual([0, 1, 2, 3]);
+});
+
+test('rethrowing error handlers do not prevent other waves from running', async () => {
+  const a = atom(0);
+  const seen: number[] = [];
+  const asyncSeen: number[] = [];
+  wave(
+    () => {
+      if (get(a) > 0) throw new Error('effect');
+    },
+    {
+      onError: (error) => {
+        throw error;
+      },
+    },
+  );
+  wave(
+    () => {
+      get(a);
+      onCleanup(() => {
+        throw new Error('cleanup');
+      });
+    },
+    {
+      onError: (error) => {
+        throw error;
+      },
+    },
+  );
+  wave(() => {
+    seen.push(get(a));
+  });
+  wave(
+    () => {
+      asyncSeen.push(get(a));
+    },
+    { scheduler: async },
+  );
+
+  expect(() => set(a, 1)).toThrow('effect');
+  expect(() => set(a, 2)).toThrow('effect');
+  expect(seen).toEqual([0, 1, 2]);
+  await Bun.sleep(0);
+  expect(asyncSeen).toEqual([0, 2]);
+  expect(() => set(a, 3)).toThrow();
+  await Bun.sleep(0);
+  expect(seen).toEqual([0, 1, 2, 3]);
+  expect(asyncSeen).toEqual([0, 2, 3]);
+});
+
+test('disposed waves never run again', async () => {
+  const a = atom(0);
+  const m = mock();
+  const stop = wave(() => {
+    m(get(a));
+  }, async);
+
+  expect(stop.disposed).toBeFalse();
+  set(a, 1);
+  stop();
+  expect(stop.disposed).toBeTrue();
+
+  await Promise.resolve();
+  expect(m).toHaveBeenCalledTimes(1);
+
+  set(a, 2);
+  await Promise.resolve();
+  expect(m).toHaveBeenCalledTimes(1);
+});
+
+test('scopes', () => {
+  const a = atom(0);
+  const m = mock();
+  const n = mock();
+  const cleanup = mock();
+
+  const [double, dispose] = scope(() => {
+    const double = molecule(() => get(a) * 2);
+    wave(() => {
+      m(get(double));
+      return cleanup;
+    });
+    const [, disposeNested] = scope(() =>
+      wave(() => {
+        n(get(a));
+      }),
+    );
+    set(a, 1);
+    disposeNested();
+    set(a, 2);
+    return double;
+  });
+
+  expect(m).toHaveBeenCalledTimes(3);
+  expect(n).toHaveBeenCalledTimes(2);
+
+  dispose();
+  expect(cleanup).toHaveBeenCalledTimes(3);
+  set(a, 3);
+  expect(m).toHaveBeenCalledTimes(3);
+  expect(n).toHaveBeenCalledTimes(2);
+  expect(get(double)).toBe(6);
+});
+
+test('molecule errors', () => {
+  const a = atom(0);
+  const compute = mock();
+  const b = molecule(() => {
+    compute();
+    if (get(a) === 1) throw new Error('bad value');
+    return get(a) * 2;
+  });
+  const c = molecule(() => get(b) + 1);
+
+  expect(get(c)).toBe(1);
+  set(a, 1);
+  expect(() => get(c)).toThrow('bad value');
+  expect(() => get(b)).toThrow('bad value');
+  expect(compute).toHaveBeenCalledTimes(2);
+  set(a, 2);
+  expect(get(c)).toBe(5);
+});
+
+test('wave errors', () => {
+  const a = atom(0);
+  const onError = mock();
+  const handler = mock();
+  const m = mock();
+  setErrorHandler(handler);
+
+  wave(
+    () => {
+      if (get(a) === 1) throw new Error('local');
+    },
+    { onError },
+  );
+  wave(() => {
+    if (get(a) === 1) throw new Error('global');
+  });
+  wave(() => {
+    m(get(a));
+  });
+
+  expect(() => set(a, 1)).not.toThrow();
+  expect(onError).toHaveBeenCalledWith(new Error('local'));
+  expect(handler).toHaveBeenCalledWith(new Error('global'));
+  expect(m).toHaveBeenLastCalledWith(1);
+
+  setErrorHandler((error) => console.error(error));
+});
+
+test('async molecules', async () => {
+  const id = atom(1);
+  const signals: AbortSignal[] = [];
+  const user = asyncMolecule(async (signal) => {
+    const currentId = get(id);
+    signals.push(signal);
+    await Bun.sleep(10);
+    if (currentId < 0) throw new Error('invalid id');
+    return `user ${currentId}`;
+  });
+  const m = mock();
+  wave(() => {
+    m(get(user).state);
+  });
+
+  expect(get(user)).toEqual({ state: 'pending', value: null, error: null });
+  await Bun.sleep(20);
+  expect(get(user)).toEqual({ state: 'success', value: 'user 1', error: null });
+
+  set(id, 2);
+  expect(get(user).state).toBe('pending');
+  expect(signals[0].aborted).toBeTrue();
+  expect(signals[1].aborted).toBeFalse();
+  set(id, -1);
+  expect(signals[1].aborted).toBeTrue();
+  await Bun.sleep(20);
+  expect(get(user)).toEqual({
+    state: 'error',
+    value: null,
+    error: new Error('invalid id'),
+  });
+  expect(m.mock.calls.map(([state]) => state)).toEqual([
+    'pending',
+    'success',
+    'pending',
+    'error',
+  ]);
+});
+
+test('writable molecules', () => {
+  const fahrenheit = atom(32);
+  const celsius = molecule({
+    get: () => ((get(fahrenheit) - 32) * 5) / 9,
+    set: (value) => set(fahrenheit, (value * 9) / 5 + 32),
+  });
+  const m = mock();
+  wave(() => {
+    m(get(celsius), get(fahrenheit));
+  });
+
+  expect(get(celsius)).toBe(0);
+  set(celsius, 100);
+  expect(get(fahrenheit)).toBe(212);
+  expect(m).toHaveBeenLastCalledWith(100, 212);
+  set(celsius, (c) => c - 100);
+  expect(get(fahrenheit)).toBe(32);
+  expect(m).toHaveBeenCalledTimes(3);
+});
+
+test('writable molecules batch their writes', () => {
+  const first = atom('John');
+  const last = atom('Doe');
+  const fullName = molecule({
+    get: () => `${get(first)} ${get(last)}`,
+    set: (value) => {
+      const [f, l] = value.split(' ');
+      set(first, f);
+      set(last, l);
+    },
+  });
+  const m = mock();
+  wave(() => {
+    m(get(first), get(last));
+  });
+
+  set(fullName, 'Jane Roe');
+  expect(get(fullName)).toBe('Jane Roe');
+  expect(m).toHaveBeenCalledTimes(2);
+  expect(m).toHaveBeenLastCalledWith('Jane', 'Roe');
+});
+
+test('focus', () => {
+  const state = atom({
+    user: { name: 'Alice', address: { city: 'Paris', zip: '75001' } },
+    todos: [{ text: 'write tests', done: false }],
+  });
+  const city = focus(state, 'user.address.city');
+  const zip = focus(state, 'user.address.zip');
+  const done = focus(
+    state,
+    (s) => s.todos[0].done,
+    (s, value) => ({ ...s, todos: [{ ...s.todos[0], done: value }] }),
+  );
+  const text = focus(state, 'todos.0.text');
+  const m = mock();
+  wave(() => {
+    m(get(city));
+  });
+
+  const user = get(state).user;
+  set(zip, '75002');
+  expect(get(state).user.address).toEqual({ city: 'Paris', zip: '75002' });
+  expect(get(state).user.name).toBe('Alice');
+  expect(m).toHaveBeenCalledTimes(1);
+
+  set(city, (c) => c.toUpperCase());
+  expect(get(state).user.address.city).toBe('PARIS');
+  expect(user.address.city).toBe('Paris');
+  expect(m).toHaveBeenLastCalledWith('PARIS');
+
+  set(done, true);
+  set(text, 'ship it');
+  expect(get(state).todos).toEqual([{ text: 'ship it', done: true }]);
+  expect(m).toHaveBeenCalledTimes(2);
+});
+
+test('atom families', () => {
+  const todos = atomFamily((key: { id: number }) => `todo ${key.id}`);
+  const first = todos({ id: 1 });
+
+  expect(todos({ id: 1 })).toBe(first);
+  expect(todos({ id: 2 })).not.toBe(first);
+  set(first, 'updated');
+  expect(get(todos({ id: 1 }))).toBe('updated');
+
+  todos.remove({ id: 1 });
+  expect(todos({ id: 1 })).not.toBe(first);
+  expect(get(todos({ id: 1 }))).toBe('todo 1');
+});
+
+test('molecule families evict unobserved members', async () => {
+  const multiplier = atom(2);
+  const products = moleculeFamily(
+    ([a, b]: [number, number]) =>
+      () =>
+        a * b * get(multiplier),
+  );
+  const member = products([2, 3]);
+
+  const stop = wave(() => {
+    get(products([2, 3]));
+  });
+  expect(products([2, 3])).toBe(member);
+  expect(get(member)).toBe(12);
+
+  stop();
+  const again = wave(() => {
+    get(member);
+  });
+  await Bun.sleep(0);
+  expect(products([2, 3])).toBe(member);
+
+  again();
+  expect(products([2, 3])).toBe(member);
+  await Bun.sleep(0);
+  expect(products([2, 3])).not.toBe(member);
+});
+
+test('reactive collections: atomMap', () => {
+  const users = atomMap([
+    [1, 'Alice'],
+    [2, 'Bob'],
+  ]);
+  const first = mock();
+  const hasThird = mock();
+  const size = mock();
+  wave(() => {
+    first(users.get(1));
+  });
+  wave(() => {
+    hasThird(users.has(3));
+  });
+  wave(() => {
+    size(users.size, [...users.values()]);
+  });
+
+  users.set(2, 'Bobby');
+  expect(first).toHaveBeenCalledTimes(1);
+  expect(hasThird).toHaveBeenCalledTimes(1);
+  expect(size).toHaveBeenLastCalledWith(2, ['Alice', 'Bobby']);
+
+  users.set(1, 'Alicia');
+  expect(first).toHaveBeenLastCalledWith('Alicia');
+  expect(hasThird).toHaveBeenCalledTimes(1);
+
+  users.set(3, 'Carol');
+  expect(hasThird).toHaveBeenLastCalledWith(true);
+  expect(first).toHaveBeenCalledTimes(2);
+
+  users.delete(1);
+  expect(first).toHaveBeenLastCalledWith(undefined);
+  expect(size).toHaveBeenLastCalledWith(2, ['Bobby', 'Carol']);
+});
+
+test('reactive collections: atomSet', () => {
+  const selected = atomSet(['a']);
+  const hasA = mock();
+  const hasB = mock();
+  wave(() => {
+    hasA(selected.has('a'));
+  });
+  wave(() => {
+    hasB(selected.has('b'));
+  });
+
+  selected.add('b');
+  expect(hasA).toHaveBeenCalledTimes(1);
+  expect(hasB).toHaveBeenLastCalledWith(true);
+  selected.delete('a');
+  expect(hasA).toHaveBeenLastCalledWith(false);
+  expect(hasB).toHaveBeenCalledTimes(2);
+  expect([...selected]).toEqual(['b']);
+});
+
+test('reactive collections: atomArray', () => {
+  const rows = atomArray(['a', 'b', 'c']);
+  const renders = [mock(), mock(), mock()];
+  renders.forEach((render, index) => {
+    wave(() => {
+      render(rows.at(index));
+    });
+  });
+  const length = mock();
+  wave(() => {
+    length(rows.length);
+  });
+
+  rows.set(1, 'B');
+  expect(renders.map((render) => render.mock.calls.length)).toEqual([1, 2, 1]);
+  expect(length).toHaveBeenCalledTimes(1);
+
+  rows.push('d');
+  expect(renders.map((render) => render.mock.calls.length)).toEqual([1, 2, 1]);
+  expect(length).toHaveBeenLastCalledWith(4);
+
+  rows.splice(0, 1);
+  expect(renders[0]).toHaveBeenLastCalledWith('B');
+  expect(renders[2]).toHaveBeenLastCalledWith('d');
+  expect(rows.pop()).toBe('d');
+  expect([...rows]).toEqual(['B', 'c']);
+
+  rows.set(2, 'e');
+  expect([...rows]).toEqual(['B', 'c', 'e']);
+  expect(() => rows.set(5, 'f')).toThrow(RangeError);
+  expect(() => rows.set(-4, 'f')).toThrow(RangeError);
+  expect([...rows]).toEqual(['B', 'c', 'e']);
+  expect(length).toHaveBeenLastCalledWith(3);
+});
+
+test('reactive collections: atomArray writes from an index on', () => {
+  const rows = atomArray(['a', 'b', 'c', 'd']);
+  const renders = [mock(), mock(), mock(), mock()];
+  renders.forEach((render, index) => {
+    wave(() => {
+      render(rows.at(index));
+    });
+  });
+  const items = mock();
+  wave(() => {
+    items([...rows]);
+  });
+  const counts = () => renders.map((render) => render.mock.calls.length);
+
+  rows.set(-1, 'D');
+  expect(counts()).toEqual([1, 1, 1, 2]);
+  expect(items).toHaveBeenLastCalledWith(['a', 'b', 'c', 'D']);
+
+  rows.splice(1, 1, 'B');
+  expect(counts()).toEqual([1, 2, 1, 2]);
+
+  rows.splice(2, 1);
+  expect(counts()).toEqual([1, 2, 2, 3]);
+  expect(renders[3]).toHaveBeenLastCalledWith(undefined);
+
+  rows.set(3, 'e');
+  expect(counts()).toEqual([1, 2, 2, 4]);
+  expect(items).toHaveBeenLastCalledWith(['a', 'B', 'D', 'e']);
+});
+
+test('stores', () => {
+  const form = store({
+    user: { name: 'Alice', address: { city: 'Paris' } },
+    tags: ['a'],
+  });
+  const name = mock();
+  const city = mock();
+  const user = mock();
+  wave(() => {
+    name(form.user.name);
+  });
+  wave(() => {
+    city(form.user.address.city);
+  });
+  wave(() => {
+    user(get(form.user));
+  });
+
+  expect(isParticle(form)).toBeTrue();
+  expect(isParticle(form.user)).toBeTrue();
+
+  form.user.address.city = 'London';
+  expect(name).toHaveBeenCalledTimes(1);
+  expect(city).toHaveBeenLastCalledWith('London');
+  expect(user).toHaveBeenLastCalledWith({
+    name: 'Alice',
+    address: { city: 'London' },
+  });
+
+  form.user.name = 'Alicia';
+  expect(name).toHaveBeenLastCalledWith('Alicia');
+  expect(city).toHaveBeenCalledTimes(2);
+
+  const before = snapshot(form);
+  form.tags.push('b');
+  const after = snapshot(form);
+  expect(Object.isFrozen(after)).toBeTrue();
+  expect(after.tags).toEqual(['a', 'b']);
+  expect(before.tags).toEqual(['a']);
+  expect(after.user).toBe(before.user);
+  expect(user).toHaveBeenCalledTimes(3);
+});
+
+test('checking a molecule does not track its store dependencies', () => {
+  const form = store({ user: { name: 'Alice', age: 0 } });
+  const x = atom(1);
+  const y = atom(0);
+  const isPositive = molecule(() => get(x) > 0);
+  const name = molecule(() => (get(isPositive) ? get(form.user).name : ''));
+  const runs = mock();
+  wave(() => {
+    runs(get(y), get(name));
+  });
+
+  batch(() => {
+    set(y, 1);
+    set(x, 2);
+  });
+  expect(runs).toHaveBeenCalledTimes(2);
+  form.user.age = 1;
+  expect(runs).toHaveBeenCalledTimes(2);
+});
+
+test('snapshot and hydrate keyed atoms', () => {
+  const user = atom({ name: 'Alice', since: new Date(0) }, { key: 'user' });
+  const tags = atom(new Set(['a']), { key: 'tags' });
+  atom(0);
+
+  set(tags, new Set(['a', 'b']));
+  const text = defaultSerializer.stringify(snapshot());
+
+  set(user, { name: 'Bob', since: new Date(1) });
+  const m = mock();
+  wave(() => {
+    m(get(user).name, get(tags).size);
+  });
+
+  hydrate(defaultSerializer.parse(text) as Record<string, unknown>);
+  expect(get(user)).toEqual({ name: 'Alice', since: new Date(0) });
+  expect(get(tags)).toEqual(new Set(['a', 'b']));
+  expect(m).toHaveBeenCalledTimes(2);
+  expect(m).toHaveBeenLastCalledWith('Alice', 2);
+
+  hydrate({ late: new Map([[1, 'one']]) });
+  const late = atom(new Map<number, string>(), { key: 'late' });
+  expect(get(late).get(1)).toBe('one');
+});
+
+test('names and introspection', () => {
+  const a = atom(1, { name: 'a' });
+  const b = atom(2, { name: 'b' });
+  const sum = molecule(() => get(a) + get(b), { name: 'sum' });
+  const dispose = wave(
+    () => {
+      get(sum);
+    },
+    { name: 'logger' },
+  );
+
+  expect(getName(a)).toBe('a');
+  expect(getName(atom(0))).toBeUndefined();
+  expect(getDependencies(sum).map(getName)).toEqual(['a', 'b']);
+  expect(getDependents(a).map(getName)).toEqual(['sum']);
+  expect(getDependents(sum).map(getName)).toEqual(['logger']);
+
+  const events: string[] = [];
+  const stop = onParticleEvent(({ type, particle }) => {
+    events.push(`${type}:${getName(particle)}`);
+  });
+  set(a, 10);
+  stop();
+  set(a, 20);
+
+  expect(events).toEqual([
+    'write:a',
+    'notify:sum',
+    'notify:logger',
+    'compute:sum',
+    'read:a',
+    'read:b',
+    'compute:logger',
+    'read:sum',
+  ]);
+
+  dispose();
+  expect(getDependents(sum)).toEqual([]);
+});
@@ -1,5 +1,12 @@
-import { getDependents } from './graph';
-import { type Particle, notifySym, readSym } from './particle';
+import { strictEqual } from './equality';
+import { notifyDependents, setName } from './graph';
+import {
+  type Particle,
+  type ParticleOptions,
+  notifySym,
+  readSym,
+} from './particle';
+import { registerKeyedAtom } from './registry';
 
 export const writeSym = Symbol();
 
@@ -12,28 +19,44 @@ export interface Atom<T> extends Particle<T> {
   readonly [writeSym]: (v: Writer<T>) => void;
 }
 
+/**
+ * Defines the AtomOptions type representing options for creating an atom.
+ *
+ * @property key - A unique key, opting the atom into being included in snapshots, and being hydrated from them (see `snapshot` and `hydrate`).
+ */
+export type AtomOptions<T> = ParticleOptions<T> & {
+  key: string;
+};
+
 /**
  * Creates an {@link Atom} object with the provided initial value.
  *
  * @param initialValue The initial value for the Atom.
+ * @param options Additional options for configuring the atom ({@link AtomOptions}).
  * @returns An {@link Atom} object with read and write capabilities.
  */
-export function atom<T>(initialValue: T): Atom<T> {
+export function atom<T>(
+  initialValue: T,
+  { equals = strictEqual, key, name }: Partial<AtomOptions<T>> = {},
+): Atom<T> {
   let value = initialValue;
 
   const atm = {
     [readSym]: () => value,
     [writeSym](f) {
       const nextValue = typeof f === 'function' ? (f as (v: T) => T)(value) : f;
-      if (nextValue !== value) {
+      if (!equals(nextValue, value)) {
         value = nextValue;
-        for (const p of getDependents(atm)) {
-          p[notifySym]();
-        }
+        notifyDependents(atm);
       }
     },
     [notifySym]() {},
   } satisfies Atom<T>;
 
+  setName(atm, name ?? key);
+  if (key !== undefined) {
+    value = registerKeyedAtom(key, atm, initialValue);
+  }
+
   return atm;
 }
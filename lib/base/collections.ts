@@ -0,0 +1,282 @@
+import { type Atom, atom } from './atom';
+import { runInBatch, skipRecording } from './graph';
+import { KeyTracker } from './key-tracker';
+import { get, set } from './ops';
+
+/**
+ * A reactive `Map`, whose reads are tracked per key: `get` and `has` on a single key are only notified of changes to that key,
+ * while `size` and iteration are notified of any change.
+ */
+export class AtomMap<K, V> implements Iterable<[K, V]> {
+  #map: Map<K, V>;
+  #values = new KeyTracker<K>();
+  #presence = new KeyTracker<K>();
+  #structure = skipRecording(atom(0));
+
+  constructor(entries?: Iterable<readonly [K, V]>) {
+    this.#map = new Map(entries);
+  }
+
+  get(key: K): V | undefined {
+    this.#values.track(key);
+    return this.#map.get(key);
+  }
+
+  has(key: K): boolean {
+    this.#presence.track(key);
+    return this.#map.has(key);
+  }
+
+  get size(): number {
+    get(this.#structure);
+    return this.#map.size;
+  }
+
+  set(key: K, value: V): this {
+    const isNew = !this.#map.has(key);
+    if (!isNew && this.#map.get(key) === value) return this;
+    this.#map.set(key, value);
+    runInBatch(() => {
+      this.#values.trigger(key);
+      if (isNew) this.#presence.trigger(key);
+      set(this.#structure, (v) => v + 1);
+    });
+    return this;
+  }
+
+  delete(key: K): boolean {
+    if (!this.#map.delete(key)) return false;
+    runInBatch(() => {
+      this.#values.trigger(key);
+      this.#presence.trigger(key);
+      set(this.#structure, (v) => v + 1);
+    });
+    return true;
+  }
+
+  clear() {
+    if (!this.#map.size) return;
+    this.#map.clear();
+    runInBatch(() => {
+      this.#values.triggerAll();
+      this.#presence.triggerAll();
+      set(this.#structure, (v) => v + 1);
+    });
+  }
+
+  *entries(): IterableIterator<[K, V]> {
+    get(this.#structure);
+    yield* this.#map.entries();
+  }
+
+  *keys(): IterableIterator<K> {
+    get(this.#structure);
+    yield* this.#map.keys();
+  }
+
+  *values(): IterableIterator<V> {
+    get(this.#structure);
+    yield* this.#map.values();
+  }
+
+  forEach(callback: (value: V, key: K, map: AtomMap<K, V>) => void) {
+    for (const [key, value] of this.entries()) {
+      callback(value, key, this);
+    }
+  }
+
+  [Symbol.iterator]() {
+    return this.entries();
+  }
+}
+
+/**
+ * A reactive `Set`, whose reads are tracked per value: `has` on a single value is only notified of changes to that value's presence,
+ * while `size` and iteration are notified of any change.
+ */
+export class AtomSet<T> implements Iterable<T> {
+  #set: Set<T>;
+  #presence = new KeyTracker<T>();
+  #structure = skipRecording(atom(0));
+
+  constructor(values?: Iterable<T>) {
+    this.#set = new Set(values);
+  }
+
+  has(value: T): boolean {
+    this.#presence.track(value);
+    return this.#set.has(value);
+  }
+
+  get size(): number {
+    get(this.#structure);
+    return this.#set.size;
+  }
+
+  add(value: T): this {
+    if (this.#set.has(value)) return this;
+    this.#set.add(value);
+    runInBatch(() => {
+      this.#presence.trigger(value);
+      set(this.#structure, (v) => v + 1);
+    });
+    return this;
+  }
+
+  delete(value: T): boolean {
+    if (!this.#set.delete(value)) return false;
+    runInBatch(() => {
+      this.#presence.trigger(value);
+      set(this.#structure, (v) => v + 1);
+    });
+    return true;
+  }
+
+  clear() {
+    if (!this.#set.size) return;
+    this.#set.clear();
+    runInBatch(() => {
+      this.#presence.triggerAll();
+      set(this.#structure, (v) => v + 1);
+    });
+  }
+
+  *values(): IterableIterator<T> {
+    get(this.#structure);
+    yield* this.#set.values();
+  }
+
+  keys(): IterableIterator<T> {
+    return this.values();
+  }
+
+  forEach(callback: (value: T, set: AtomSet<T>) => void) {
+    for (const value of this.values()) {
+      callback(value, this);
+    }
+  }
+
+  [Symbol.iterator]() {
+    return this.values();
+  }
+}
+
+/**
+ * A reactive array, whose reads are tracked per index: `at` on a single index is only notified of changes to that index,
+ * `length` is only notified of changes to the array's length, while iteration is notified of any change.
+ */
+export class AtomArray<T> implements Iterable<T> {
+  #items: T[];
+  #indices = new KeyTracker<number>();
+  #length: Atom<number>;
+  #structure = skipRecording(atom(0));
+
+  constructor(items?: Iterable<T>) {
+    this.#items = items ? [...items] : [];
+    this.#length = skipRecording(atom(this.#items.length));
+  }
+
+  at(index: number): T | undefined {
+    const normalizedIndex = index < 0 ? this.length + index : index;
+    this.#indices.track(normalizedIndex);
+    return this.#items[normalizedIndex];
+  }
+
+  get length(): number {
+    return get(this.#length);
+  }
+
+  set(index: number, value: T): this {
+    const length = this.#items.length;
+    if (index > length || index < -length) {
+      throw new RangeError(`AtomArray.set: index ${index} is out of range`);
+    }
+    if (index === length) {
+      this.push(value);
+      return this;
+    }
+    const normalizedIndex = index < 0 ? length + index : index;
+    if (this.#items[normalizedIndex] === value) return this;
+    this.#items[normalizedIndex] = value;
+    runInBatch(() => {
+      this.#indices.trigger(normalizedIndex);
+      set(this.#structure, (v) => v + 1);
+    });
+    return this;
+  }
+
+  push(...items: T[]): number {
+    this.splice(this.#items.length, 0, ...items);
+    return this.#items.length;
+  }
+
+  pop(): T | undefined {
+    return this.splice(-1, 1)[0];
+  }
+
+  splice(start: number, deleteCount = 0, ...items: T[]): T[] {
+    const length = this.#items.length;
+    const normalizedStart =
+      start < 0 ? Math.max(length + start, 0) : Math.min(start, length);
+    // only the indices from `start` on can change
+    const previous = this.#items.slice(normalizedStart);
+    const removed = this.#items.splice(normalizedStart, deleteCount, ...items);
+    if (!removed.length && !items.length) return removed;
+    // when as many items are inserted as removed, the ones following them stay in place
+    const end =
+      removed.length === items.length
+        ? normalizedStart + items.length
+        : Math.max(length, this.#items.length);
+    runInBatch(() => {
+      for (let index = normalizedStart; index < end; index++) {
+        if (previous[index - normalizedStart] !== this.#items[index]) {
+          this.#indices.trigger(index);
+        }
+      }
+      if (removed.length !== items.length) {
+        set(this.#length, this.#items.length);
+      }
+      set(this.#structure, (v) => v + 1);
+    });
+    return removed;
+  }
+
+  *values(): IterableIterator<T> {
+    get(this.#structure);
+    yield* this.#items;
+  }
+
+  [Symbol.iterator]() {
+    return this.values();
+  }
+}
+
+/**
+ * Creates a new {@link AtomMap} with the given initial entries.
+ *
+ * @param entries The initial entries of the map.
+ * @returns A reactive map, tracking reads per key.
+ */
+export function atomMap<K, V>(entries?: Iterable<readonly [K, V]>) {
+  return new AtomMap(entries);
+}
+
+/**
+ * Creates a new {@link AtomSet} with the given initial values.
+ *
+ * @param values The initial values of the set.
+ * @returns A reactive set, tracking reads per value.
+ */
+export function atomSet<T>(values?: Iterable<T>) {
+  return new AtomSet(values);
+}
+
+/**
+ * Creates a new {@link AtomArray} with the given initial items.
+ *
+ * @param items The initial items of the array.
+ * @returns A reactive array, tracking reads per index.
+ */
+export function atomArray<T>(items?: Iterable<T>) {
+  return new AtomArray(items);
+}
@@ -0,0 +1,67 @@
+/**
+ * A function deciding whether two values are equal, and thus whether a change should be propagated.
+ */
+export type Equals<T> = (a: T, b: T) => boolean;
+
+export const strictEqual: Equals<unknown> = (a, b) => a === b;
+
+function isPlainObject(x: unknown): x is Record<PropertyKey, unknown> {
+  if (!x || typeof x !== 'object') return false;
+  const proto = Object.getPrototypeOf(x);
+  return proto === Object.prototype || proto === null;
+}
+
+function compareWith(a: unknown, b: unknown, compare: Equals<unknown>) {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((x, i) => compare(x, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && compare(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Checks whether two values are equal, comparing the items of arrays and the own properties of plain objects by identity.
+ *
+ * @param a The first value to compare.
+ * @param b The second value to compare.
+ * @returns `true` if the values are shallowly equal.
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  return compareWith(a, b, Object.is);
+}
+
+/**
+ * Checks whether two values are structurally equal, recursively comparing arrays, plain objects, dates, maps and sets.
+ *
+ * @param a The first value to compare.
+ * @param b The second value to compare.
+ * @returns `true` if the values are deeply equal.
+ */
+export function deepEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (a instanceof Map && b instanceof Map) {
+    if (a.size !== b.size) return false;
+    for (const [key, value] of a) {
+      if (!b.has(key) || !deepEqual(value, b.get(key))) return false;
+    }
+    return true;
+  }
+  if (a instanceof Set && b instanceof Set) {
+    if (a.size !== b.size) return false;
+    for (const value of a) {
+      if (!b.has(value)) return false;
+    }
+    return true;
+  }
+  return compareWith(a, b, deepEqual);
+}
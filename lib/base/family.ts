@@ -0,0 +1,83 @@
+import { type Atom, atom } from './atom';
+import { getDependents, onUnobserved, releaseDependencies } from './graph';
+import { molecule } from './molecule';
+import type { Particle, ParticleOptions } from './particle';
+import { serializeKey } from './serialize-key';
+
+/**
+ * A family of particles, returning the same particle for every call with an equal (serialisable) key.
+ * Members are evicted once they lose their last dependent (unless they regain one before the next microtask), or when explicitly removed.
+ */
+export type Family<Key, P> = {
+  (key: Key): P;
+  remove(key: Key): void;
+};
+
+function createFamily<Key, P extends Particle<unknown>>(
+  createMember: (key: Key) => P,
+  disposeMember: (member: P) => void = () => {},
+): Family<Key, P> {
+  const members = new Map<string, P>();
+
+  function remove(key: Key) {
+    const serializedKey = serializeKey(key);
+    const member = members.get(serializedKey);
+    if (!member) return;
+    members.delete(serializedKey);
+    disposeMember(member);
+  }
+
+  function family(key: Key) {
+    const serializedKey = serializeKey(key);
+    let member = members.get(serializedKey);
+    if (!member) {
+      member = createMember(key);
+      members.set(serializedKey, member);
+      const current = member;
+      onUnobserved(current, () => {
+        queueMicrotask(() => {
+          if (getDependents(current).size) return;
+          if (members.get(serializedKey) === current) remove(key);
+        });
+      });
+    }
+    return member;
+  }
+
+  return Object.assign(family, { remove });
+}
+
+/**
+ * Creates a family of {@link Atom} objects, one per key.
+ * An atom is created (with the initial value returned by the initializer) the first time its key is requested,
+ * and is evicted (losing its value) once it loses its last dependent, or when its key is removed.
+ *
+ * @param initializer A function returning the initial value of the atom for the given key.
+ * @param options Additional options for configuring the family's atoms ({@link ParticleOptions}).
+ * @returns A {@link Family} of atoms.
+ */
+export function atomFamily<Key, T>(
+  initializer: (key: Key) => T,
+  options?: Partial<ParticleOptions<T>>,
+): Family<Key, Atom<T>> {
+  return createFamily((key) => atom(initializer(key), options));
+}
+
+/**
+ * Creates a family of molecules, one per key.
+ * A molecule is created (with the factory returned for its key) the first time its key is requested,
+ * and is evicted (releasing its own dependencies) once it loses its last dependent, or when its key is removed.
+ *
+ * @param factory A function returning the molecule's factory function for the given key.
+ * @param options Additional options for configuring the family's molecules ({@link ParticleOptions}).
+ * @returns A {@link Family} of molecules.
+ */
+export function moleculeFamily<Key, T>(
+  factory: (key: Key) => () => T,
+  options?: Partial<ParticleOptions<T>>,
+): Family<Key, Particle<T>> {
+  return createFamily(
+    (key) => molecule(factory(key), options),
+    releaseDependencies,
+  );
+}
@@ -0,0 +1,114 @@
+import type { Atom } from './atom';
+import { molecule } from './molecule';
+import { get, set } from './ops';
+import type { ParticleOptions } from './particle';
+
+/**
+ * A dot-separated path to a nested property of `T` (e.g. `'user.address.city'`, or `'todos.0.text'`).
+ */
+export type Path<T> = T extends readonly (infer U)[]
+  ? `${number}` | `${number}.${Path<U>}`
+  : T extends object
+    ? {
+        [K in keyof T & string]: K | `${K}.${Path<T[K]>}`;
+      }[keyof T & string]
+    : never;
+
+/**
+ * The type of the nested property of `T` found at the given {@link Path}.
+ */
+export type PathValue<T, P extends string> = T extends readonly (infer U)[]
+  ? P extends `${number}.${infer Rest}`
+    ? PathValue<U, Rest>
+    : U
+  : P extends `${infer K}.${infer Rest}`
+    ? K extends keyof T
+      ? PathValue<T[K], Rest>
+      : never
+    : P extends keyof T
+      ? T[P]
+      : never;
+
+function getIn(source: unknown, keys: string[]): unknown {
+  let current = source;
+  for (const key of keys) {
+    if (current == null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function setIn(
+  source: unknown,
+  [key, ...keys]: string[],
+  value: unknown,
+): unknown {
+  if (key === undefined) return value;
+  const current = (source ?? {}) as Record<string, unknown>;
+  const nextValue = setIn(current[key], keys, value);
+  if (Object.is(current[key], nextValue)) return source;
+  if (Array.isArray(current)) {
+    const copy = current.slice();
+    copy[Number(key)] = nextValue;
+    return copy;
+  }
+  return { ...current, [key]: nextValue };
+}
+
+/**
+ * Creates an {@link Atom} focused on a nested slice of the given atom's value.
+ * Reading the focused atom reads the slice (notifying its dependents only when the slice itself changes),
+ * and writing to it immutably updates the slice within the source atom.
+ *
+ * @param source The {@link Atom} holding the whole state.
+ * @param path A dot-separated path to the slice (e.g. `'user.address.city'`).
+ * @param options Additional options for configuring the focused atom ({@link ParticleOptions}).
+ * @returns An {@link Atom} reading and writing the slice.
+ */
+export function focus<T, P extends Path<T>>(
+  source: Atom<T>,
+  path: P,
+  options?: Partial<ParticleOptions<PathValue<T, P>>>,
+): Atom<PathValue<T, P>>;
+/**
+ * Creates an {@link Atom} focused on a slice of the given atom's value, using a getter and a setter.
+ * Reading the focused atom reads the slice (notifying its dependents only when the slice itself changes),
+ * and writing to it replaces the source atom's value with the one returned by the setter.
+ *
+ * @param source The {@link Atom} holding the whole state.
+ * @param getter A function returning the slice, given the whole state.
+ * @param setter A function returning the next whole state (without mutating the current one), given the current whole state and the slice's new value.
+ * @param options Additional options for configuring the focused atom ({@link ParticleOptions}).
+ * @returns An {@link Atom} reading and writing the slice.
+ */
+export function focus<T, S>(
+  source: Atom<T>,
+  getter: (state: T) => S,
+  setter: (state: T, value: S) => T,
+  options?: Partial<ParticleOptions<S>>,
+): Atom<S>;
+export function focus<T, S>(
+  source: Atom<T>,
+  pathOrGetter: string | ((state: T) => S),
+  setterOrOptions?: ((state: T, value: S) => T) | Partial<ParticleOptions<S>>,
+  options?: Partial<ParticleOptions<S>>,
+): Atom<S> {
+  if (typeof pathOrGetter === 'function') {
+    const setter = setterOrOptions as (state: T, value: S) => T;
+    return molecule(
+      {
+        get: () => pathOrGetter(get(source)),
+        set: (value) => set(source, (state) => setter(state, value)),
+      },
+      options,
+    );
+  }
+  const keys = pathOrGetter.split('.');
+  return molecule(
+    {
+      get: () => getIn(get(source), keys) as S,
+      set: (value) => set(source, (state) => setIn(state, keys, value) as T),
+    },
+    setterOrOptions as Partial<ParticleOptions<S>> | undefined,
+  );
+}
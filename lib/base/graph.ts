@@ -1,21 +1,153 @@
-import type { Particle } from './particle';
+import { type Particle, notifySym, readSym } from './particle';
 
 const bucket = () => new WeakMap<Particle<unknown>, Set<Particle<unknown>>>();
 const empty = () => new Set<Particle<unknown>>();
 
+/**
+ * A particle is `CLEAN` when its value is up to date, `CHECK` when one of its transitive dependencies changed,
+ * and `DIRTY` when one of its direct dependencies changed (or when it was never computed).
+ */
+const CLEAN = 0;
+const CHECK = 1;
+const DIRTY = 2;
+type Status = typeof CLEAN | typeof CHECK | typeof DIRTY;
+
+/**
+ * An event emitted by the graph: a particle being read, written to (i.e. changed), notified of a change, or computed.
+ */
+export type ParticleEvent = {
+  type: 'read' | 'write' | 'notify' | 'compute';
+  particle: Particle<unknown>;
+};
+
 const DEPENDENT_TO_DEPENDENCIES = bucket();
 const DEPENDENCY_TO_DEPENDENTS = bucket();
+const STATUSES = new WeakMap<Particle<unknown>, Status>();
+const UNOBSERVED_LISTENERS = new WeakMap<Particle<unknown>, () => void>();
+const NAMES = new WeakMap<Particle<unknown>, string>();
+const EVENT_LISTENERS = new Set<(event: ParticleEvent) => void>();
 const CONTEXT_STACK = Array<Particle<unknown>>();
+const OWNER_STACK = Array<Set<() => void>>();
+const WRITE_RECORDERS = Array<Map<Particle<unknown>, unknown>>();
+const UNRECORDED = new WeakSet<Particle<unknown>>();
+const PENDING_NOTIFICATIONS = empty();
+let BATCH_DEPTH = 0;
+let IS_FLUSHING = false;
+let ERROR_HANDLER: (error: unknown) => void = (error) => console.error(error);
+
+function getStatus(particle: Particle<unknown>): Status {
+  return STATUSES.get(particle) ?? DIRTY;
+}
+
+function markStale(particle: Particle<unknown>, status: Status) {
+  const current = getStatus(particle);
+  if (current >= status) return;
+  STATUSES.set(particle, status);
+  if (current !== CLEAN) return;
+  PENDING_NOTIFICATIONS.add(particle);
+  for (const dependent of getDependents(particle)) {
+    markStale(dependent, CHECK);
+  }
+}
+
+function unlink(dependency: Particle<unknown>, dependent: Particle<unknown>) {
+  const dependents = DEPENDENCY_TO_DEPENDENTS.get(dependency);
+  if (!dependents?.delete(dependent) || dependents.size) return;
+  UNOBSERVED_LISTENERS.get(dependency)?.();
+}
 
+/**
+ * Notifies every pending particle, even if some notifications throw (e.g. an error handler rethrowing a wave's error).
+ * The first error thrown is rethrown once every pending particle was notified.
+ */
+function flush() {
+  if (BATCH_DEPTH || IS_FLUSHING) return;
+  const errors: unknown[] = [];
+  try {
+    IS_FLUSHING = true;
+    while (PENDING_NOTIFICATIONS.size) {
+      const pending = [...PENDING_NOTIFICATIONS];
+      PENDING_NOTIFICATIONS.clear();
+      for (const particle of pending) {
+        try {
+          emit('notify', particle);
+          particle[notifySym]();
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+    }
+  } finally {
+    IS_FLUSHING = false;
+  }
+  if (errors.length) throw errors[0];
+}
+
+/**
+ * Runs the given function in the context of the given particle, rebuilding its dependencies from scratch.
+ * Dependencies which were not read during this run are unlinked from the particle once it ends.
+ */
 export function runInContext<T>(particle: Particle<unknown>, fn: () => T): T {
+  const previousDependencies = getDependencies(particle);
   try {
     CONTEXT_STACK.push(particle);
+    STATUSES.set(particle, CLEAN);
+    emit('compute', particle);
+    DEPENDENT_TO_DEPENDENCIES.set(particle, empty());
     return fn();
   } finally {
     CONTEXT_STACK.pop();
+    const currentDependencies = getDependencies(particle);
+    for (const dependency of previousDependencies) {
+      if (!currentDependencies.has(dependency)) {
+        unlink(dependency, particle);
+      }
+    }
+  }
+}
+
+/**
+ * Runs the given function within a new owner, collecting the disposal functions registered during its run
+ * (including those of nested owners), so that they can all be called at once.
+ */
+export function runInOwner<T>(fn: () => T): readonly [T, () => void] {
+  const disposals = new Set<() => void>();
+  const parent = OWNER_STACK[OWNER_STACK.length - 1];
+  const dispose = () => {
+    parent?.delete(dispose);
+    const currentDisposals = [...disposals];
+    disposals.clear();
+    for (const disposal of currentDisposals.reverse()) {
+      disposal();
+    }
+  };
+  parent?.add(dispose);
+  try {
+    OWNER_STACK.push(disposals);
+    return [fn(), dispose] as const;
+  } finally {
+    OWNER_STACK.pop();
   }
 }
 
+export function registerDisposal(dispose: () => void) {
+  OWNER_STACK[OWNER_STACK.length - 1]?.add(dispose);
+}
+
+export function runInBatch<T>(fn: () => T): T {
+  try {
+    BATCH_DEPTH++;
+    return fn();
+  } finally {
+    BATCH_DEPTH--;
+    flush();
+  }
+}
+
+export function isTracking() {
+  return CONTEXT_STACK.length > 0;
+}
+
 export function markDependency(dependency: Particle<unknown>) {
   const dependent = CONTEXT_STACK[CONTEXT_STACK.length - 1];
   if (!dependent) return;
@@ -33,11 +165,139 @@ export function releaseDependencies(particle: Particle<unknown>) {
   const dependents = DEPENDENT_TO_DEPENDENCIES.get(particle);
   if (!dependents) return;
   for (const dependent of dependents) {
-    DEPENDENCY_TO_DEPENDENTS.get(dependent)?.delete(particle);
+    unlink(dependent, particle);
   }
   DEPENDENT_TO_DEPENDENCIES.delete(particle);
+  STATUSES.delete(particle);
+}
+
+/**
+ * Registers a listener to be called whenever the given particle loses its last dependent.
+ */
+export function onUnobserved(
+  particle: Particle<unknown>,
+  listener: () => void,
+) {
+  UNOBSERVED_LISTENERS.set(particle, listener);
+}
+
+export function getDependencies(dependent: Particle<unknown>) {
+  return DEPENDENT_TO_DEPENDENCIES.get(dependent) ?? empty();
 }
 
 export function getDependents(dependency: Particle<unknown>) {
   return DEPENDENCY_TO_DEPENDENTS.get(dependency) ?? empty();
 }
+
+/**
+ * Checks whether the given particle needs to be recomputed.
+ * Particles whose transitive dependencies changed pull their direct dependencies first (in the order they were read),
+ * so that every particle is recomputed at most once per change, and never observes stale inputs.
+ */
+export function isStale(particle: Particle<unknown>) {
+  if (getStatus(particle) === CHECK) {
+    // dependencies are pulled outside of the running context, so that reading them does not track them in it
+    const suspended = CONTEXT_STACK.splice(0);
+    try {
+      for (const dependency of [...getDependencies(particle)]) {
+        try {
+          dependency[readSym]();
+        } catch {
+          // errored dependencies mark their dependents as dirty, and rethrow when read by them
+        }
+        if (getStatus(particle) === DIRTY) break;
+      }
+    } finally {
+      CONTEXT_STACK.push(...suspended);
+    }
+    if (getStatus(particle) === CHECK) {
+      STATUSES.set(particle, CLEAN);
+    }
+  }
+  return getStatus(particle) === DIRTY;
+}
+
+/**
+ * Marks the dependents which are checking whether the given (recomputed) particle changed as dirty.
+ * Dependents which are up to date are left as is, since they are already reading its latest value.
+ */
+export function markDependentsDirty(dependency: Particle<unknown>) {
+  for (const dependent of getDependents(dependency)) {
+    if (getStatus(dependent) === CHECK) {
+      STATUSES.set(dependent, DIRTY);
+    }
+  }
+}
+
+/**
+ * Marks the direct dependents of the given (changed) particle as dirty, and their own dependents as possibly dirty.
+ * Once all affected particles have been marked (and no batch is running), each of them is notified exactly once.
+ */
+export function notifyDependents(dependency: Particle<unknown>) {
+  emit('write', dependency);
+  for (const dependent of getDependents(dependency)) {
+    markStale(dependent, DIRTY);
+  }
+  flush();
+}
+
+export function setErrorHandler(handler: (error: unknown) => void) {
+  ERROR_HANDLER = handler;
+}
+
+export function handleError(error: unknown) {
+  ERROR_HANDLER(error);
+}
+
+export function setName(particle: Particle<unknown>, name: string | undefined) {
+  if (name !== undefined) NAMES.set(particle, name);
+}
+
+export function getName(particle: Particle<unknown>) {
+  return NAMES.get(particle);
+}
+
+export function addEventListener(listener: (event: ParticleEvent) => void) {
+  EVENT_LISTENERS.add(listener);
+  return () => {
+    EVENT_LISTENERS.delete(listener);
+  };
+}
+
+export function emit(type: ParticleEvent['type'], particle: Particle<unknown>) {
+  if (!EVENT_LISTENERS.size) return;
+  for (const listener of [...EVENT_LISTENERS]) {
+    listener({ type, particle });
+  }
+}
+
+export function runInRecorder<T>(
+  writes: Map<Particle<unknown>, unknown>,
+  fn: () => T,
+): T {
+  WRITE_RECORDERS.push(writes);
+  try {
+    return fn();
+  } finally {
+    WRITE_RECORDERS.pop();
+  }
+}
+
+export function isRecording() {
+  return WRITE_RECORDERS.length > 0;
+}
+
+export function skipRecording<T extends Particle<unknown>>(particle: T): T {
+  UNRECORDED.add(particle);
+  return particle;
+}
+
+export function recordWrite(
+  particle: Particle<unknown>,
+  previousValue: unknown,
+) {
+  if (UNRECORDED.has(particle)) return;
+  for (const writes of WRITE_RECORDERS) {
+    if (!writes.has(particle)) writes.set(particle, previousValue);
+  }
+}
@@ -0,0 +1,91 @@
+import { runInBatch } from './graph';
+import { peek, set } from './ops';
+import { getKeyedAtoms, setHydratedValue } from './registry';
+import { type Store, snapshotStore } from './store';
+
+/**
+ * Defines a Serializer type, converting snapshots to and from strings.
+ */
+export type Serializer = {
+  stringify: (value: unknown) => string;
+  parse: (text: string) => unknown;
+};
+
+const TYPE = '$atmol';
+
+/**
+ * A JSON based {@link Serializer}, which also supports `Date`, `Map` and `Set` values.
+ */
+export const defaultSerializer: Serializer = {
+  stringify(value) {
+    return JSON.stringify(value, function (this: Record<string, unknown>, key) {
+      const raw = this[key];
+      if (raw instanceof Date) {
+        return { [TYPE]: 'Date', value: raw.toISOString() };
+      }
+      if (raw instanceof Map) return { [TYPE]: 'Map', value: [...raw] };
+      if (raw instanceof Set) return { [TYPE]: 'Set', value: [...raw] };
+      return raw;
+    });
+  },
+  parse(text) {
+    return JSON.parse(text, (_, value) => {
+      if (!value || typeof value !== 'object' || !(TYPE in value)) {
+        return value;
+      }
+      switch (value[TYPE]) {
+        case 'Date':
+          return new Date(value.value);
+        case 'Map':
+          return new Map(value.value);
+        case 'Set':
+          return new Set(value.value);
+        default:
+          return value;
+      }
+    });
+  },
+};
+
+/**
+ * Returns the current values of all keyed atoms (see {@link AtomOptions}), keyed by their keys.
+ *
+ * @returns A record of the keyed atoms' values, which can be serialized and later passed to {@link hydrate}.
+ */
+export function snapshot(): Record<string, unknown>;
+/**
+ * Returns a deeply frozen plain copy of the given store (or nested slice of a store), without tracking it as a dependency.
+ * Unchanged slices keep their identity across snapshots.
+ *
+ * @param value The {@link Store} (or any nested object or array within it) to snapshot.
+ * @returns A frozen plain object representing the current state of the store.
+ */
+export function snapshot<T>(value: Store<T> | T): T;
+export function snapshot(...args: [unknown?]) {
+  if (args.length) return snapshotStore(args[0]);
+  const values: Record<string, unknown> = {};
+  for (const [key, atm] of getKeyedAtoms()) {
+    values[key] = peek(atm);
+  }
+  return values;
+}
+
+/**
+ * Writes the values of a snapshot (see {@link snapshot}) into the keyed atoms.
+ * Values of atoms which were not created yet are used as their initial values once they are.
+ *
+ * @param values A record of keyed atoms' values.
+ */
+export function hydrate(values: Record<string, unknown>) {
+  const atoms = getKeyedAtoms();
+  runInBatch(() => {
+    for (const [key, value] of Object.entries(values)) {
+      const atm = atoms.get(key);
+      if (atm) {
+        set(atm, value);
+      } else {
+        setHydratedValue(key, value);
+      }
+    }
+  });
+}
@@ -1,6 +1,14 @@
-export { atom, type Atom } from './atom';
+export { atom, type Atom, type AtomOptions } from './atom';
+export { deepEqual, shallowEqual, type Equals } from './equality';
 export * from './molecule';
+export * from './async-molecule';
+export * from './focus';
+export * from './family';
+export * from './collections';
+export { store, type Store } from './store';
+export * from './hydration';
+export * from './inspect';
 export * from './synthetic-atom';
 export * from './ops';
-export { type Particle } from './particle';
+export { type Particle, type ParticleOptions } from './particle';
 export * from './wave';
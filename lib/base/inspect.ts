@@ -0,0 +1,57 @@
+import {
+  type ParticleEvent,
+  addEventListener,
+  getDependencies as getDependencySet,
+  getDependents as getDependentSet,
+  getName as getParticleName,
+} from './graph';
+import type { Particle } from './particle';
+
+export type { ParticleEvent };
+
+/**
+ * Retrieves the name given to a particle (or a wave) upon its creation, if any.
+ *
+ * @param particle The {@link Particle} whose name to retrieve.
+ * @returns The particle's name, or `undefined` if it has none.
+ */
+export function getName(particle: Particle<unknown>): string | undefined {
+  return getParticleName(particle);
+}
+
+/**
+ * Retrieves the particles the given particle depended on during its latest computation.
+ *
+ * @param particle The {@link Particle} (e.g. a molecule, or a wave) whose dependencies to retrieve.
+ * @returns An array of the particle's dependencies, in the order they were read.
+ */
+export function getDependencies(
+  particle: Particle<unknown>,
+): Particle<unknown>[] {
+  return [...getDependencySet(particle)];
+}
+
+/**
+ * Retrieves the particles (e.g. molecules, and waves) currently depending on the given particle.
+ *
+ * @param particle The {@link Particle} whose dependents to retrieve.
+ * @returns An array of the particle's dependents.
+ */
+export function getDependents(
+  particle: Particle<unknown>,
+): Particle<unknown>[] {
+  return [...getDependentSet(particle)];
+}
+
+/**
+ * Listens to the events of all particles: being read (with `get` or `peek`), written to (i.e. changed),
+ * notified of a change in their dependencies, or computed (for molecules and waves).
+ *
+ * @param listener A function called with every {@link ParticleEvent}.
+ * @returns A function that stops listening.
+ */
+export function onParticleEvent(
+  listener: (event: ParticleEvent) => void,
+): () => void {
+  return addEventListener(listener);
+}
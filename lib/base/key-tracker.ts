@@ -0,0 +1,34 @@
+import { type Atom, atom } from './atom';
+import { isTracking, onUnobserved, skipRecording } from './graph';
+import { get, set } from './ops';
+
+/**
+ * Tracks reads of, and triggers changes to, individual keys of a collection.
+ * Keys are only tracked while they have dependents, so reading a key outside of any context does not retain it.
+ */
+export class KeyTracker<K> {
+  #atoms = new Map<K, Atom<number>>();
+
+  track(key: K) {
+    if (!isTracking()) return;
+    let version = this.#atoms.get(key);
+    if (!version) {
+      const current = skipRecording(atom(0));
+      this.#atoms.set(key, current);
+      onUnobserved(current, () => this.#atoms.delete(key));
+      version = current;
+    }
+    get(version);
+  }
+
+  trigger(key: K) {
+    const version = this.#atoms.get(key);
+    if (version) set(version, (v) => v + 1);
+  }
+
+  triggerAll() {
+    for (const key of [...this.#atoms.keys()]) {
+      this.trigger(key);
+    }
+  }
+}
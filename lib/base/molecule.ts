@@ -1,39 +1,104 @@
-import { getDependents, runInContext } from './graph';
-import { get } from './ops';
-import { type Particle, notifySym, readSym } from './particle';
+import { type Atom, type Writer, writeSym } from './atom';
+import { strictEqual } from './equality';
+import {
+  isStale,
+  markDependentsDirty,
+  registerDisposal,
+  releaseDependencies,
+  runInBatch,
+  runInContext,
+  setName,
+} from './graph';
+import {
+  type Particle,
+  type ParticleOptions,
+  notifySym,
+  readSym,
+} from './particle';
+
+/**
+ * Defines a writable molecule, whose value is derived by `get`, and whose writes are applied by `set` (usually to the atoms it derives from).
+ */
+export type WritableMolecule<T> = {
+  get: () => T;
+  set: (value: T) => void;
+};
 
 /**
  * Creates a new particle representing a molecule with the given factory function.
  * The molecule tracks its dependencies and updates its value when needed.
- * The molecule will attempt to defer its computation until it is necessary (e.g. when it's another particle's depencency, or when its value is being read).
+ * The molecule defers its computation until its value is being read (either directly, or by one of its dependents),
+ * and is recomputed at most once per change, after all of its dependencies are up to date.
+ * If the factory throws, the error is cached and rethrown whenever the molecule is read, until one of its dependencies changes.
  *
  * @param factory A function computes the value of the molecule.
+ * @param options Additional options for configuring the molecule ({@link ParticleOptions}).
  * @returns A {@link Particle} representing the molecule with the specified behavior.
  */
-export function molecule<T>(factory: () => T): Particle<T> {
-  let isDirty = true;
+export function molecule<T>(
+  factory: () => T,
+  options?: Partial<ParticleOptions<T>>,
+): Particle<T>;
+/**
+ * Creates a new writable molecule, which is derived like any other molecule, but can also be written to with the `set` operator.
+ * Writes are passed to the definition's `set` function within a batch, so that the atoms it writes to propagate their changes once.
+ *
+ * @param definition A {@link WritableMolecule} definition, with `get` computing the value of the molecule, and `set` applying writes to it.
+ * @param options Additional options for configuring the molecule ({@link ParticleOptions}).
+ * @returns An {@link Atom} representing the molecule with read and write capabilities.
+ */
+export function molecule<T>(
+  definition: WritableMolecule<T>,
+  options?: Partial<ParticleOptions<T>>,
+): Atom<T>;
+export function molecule<T>(
+  factoryOrDefinition: (() => T) | WritableMolecule<T>,
+  { equals = strictEqual, name }: Partial<ParticleOptions<T>> = {},
+): Particle<T> | Atom<T> {
+  const factory =
+    typeof factoryOrDefinition === 'function'
+      ? factoryOrDefinition
+      : factoryOrDefinition.get;
+  let hasValue = false;
   let cachedValue: T;
+  let cachedError: { error: unknown } | null = null;
 
-  const mol = {
-    [notifySym]() {
-      isDirty = true;
-      const deps = getDependents(mol);
-      if (deps.size === 0) return;
-      const oldValue = cachedValue;
-      const newValue = get(mol);
-      if (newValue !== oldValue) {
-        for (const p of deps) {
-          p[notifySym]();
-        }
+  function recompute() {
+    try {
+      const newValue = runInContext(mol, factory);
+      if (cachedError || !hasValue || !equals(newValue, cachedValue)) {
+        hasValue = true;
+        cachedValue = newValue;
+        cachedError = null;
+        markDependentsDirty(mol);
       }
-    },
+    } catch (error) {
+      hasValue = false;
+      cachedError = { error };
+      markDependentsDirty(mol);
+    }
+  }
+
+  const mol = {
+    [notifySym]() {},
     [readSym]() {
-      if (!isDirty) return cachedValue;
-      cachedValue = runInContext(mol, factory);
-      isDirty = false;
+      if (isStale(mol)) recompute();
+      if (cachedError) throw cachedError.error;
       return cachedValue;
     },
   } satisfies Particle<T>;
 
-  return mol;
+  setName(mol, name);
+  registerDisposal(() => releaseDependencies(mol));
+
+  if (typeof factoryOrDefinition === 'function') return mol;
+
+  const { set } = factoryOrDefinition;
+  return Object.assign(mol, {
+    [writeSym](f: Writer<T>) {
+      const nextValue =
+        typeof f === 'function' ? (f as (v: T) => T)(mol[readSym]()) : f;
+      runInBatch(() => set(nextValue));
+    },
+  }) satisfies Atom<T>;
 }
@@ -1,5 +1,13 @@
 import { type Atom, type Writer, writeSym } from './atom';
-import { markDependency } from './graph';
+import {
+  emit,
+  isRecording,
+  markDependency,
+  recordWrite,
+  runInBatch,
+  runInOwner,
+  setErrorHandler as setGraphErrorHandler,
+} from './graph';
 import { type Particle, readSym } from './particle';
 
 /**
@@ -20,6 +28,7 @@ export function get<T>(particle: Particle<T>): T {
  * @returns The current value of the particle.
  */
 export function peek<T>(particle: Particle<T>): T {
+  emit('read', particle);
   return particle[readSym]();
 }
 
@@ -30,6 +39,7 @@ export function peek<T>(particle: Particle<T>): T {
  * @param value either a new value to set, or a function that accepts the current value and returns a new value.
  */
 export function set<T>(atom: Atom<T>, value: Writer<T>) {
+  if (isRecording()) recordWrite(atom, atom[readSym]());
   atom[writeSym](value);
 }
 
@@ -39,3 +49,35 @@ export function isParticle(x: unknown): x is Particle<unknown> {
   }
   return false;
 }
+
+/**
+ * Runs the given function as a batch, deferring the notification of dependents until the outermost batch ends.
+ * Every particle changed within the batch propagates its change only once, so waves never observe half-applied updates.
+ *
+ * @param fn The function to run, usually containing several `set` calls.
+ * @returns The return value of the function.
+ */
+export function batch<T>(fn: () => T): T {
+  return runInBatch(fn);
+}
+
+/**
+ * Runs the given function within a new scope, collecting every wave and molecule (and reaction) created during its run,
+ * including those created within nested scopes, so that they can all be disposed of with a single call.
+ *
+ * @param fn The function to run, usually creating several waves and molecules.
+ * @returns A tuple containing the return value of the function, and a function disposing of everything created within the scope.
+ */
+export function scope<T>(fn: () => T) {
+  return runInOwner(fn);
+}
+
+/**
+ * Sets the global error handler, which is called with every error thrown by a wave that has no `onError` option of its own.
+ * By default, such errors are logged to the console, so that a single failing wave doesn't break the `set` call that triggered it.
+ *
+ * @param handler The function to call with the uncaught error.
+ */
+export function setErrorHandler(handler: (error: unknown) => void) {
+  setGraphErrorHandler(handler);
+}
@@ -1,3 +1,5 @@
+import type { Equals } from './equality';
+
 export const readSym = Symbol();
 export const notifySym = Symbol();
 
@@ -8,3 +10,14 @@ export type Particle<T> = {
   readonly [readSym]: () => T;
   readonly [notifySym]: () => void;
 };
+
+/**
+ * Defines the ParticleOptions type representing options for creating a particle.
+ *
+ * @property equals - A function deciding whether a new value is equal to the current one, in which case dependents are not notified (`===` by default).
+ * @property name - A name for the particle, used for debugging (see `getName`).
+ */
+export type ParticleOptions<T> = {
+  equals: Equals<T>;
+  name: string;
+};
@@ -0,0 +1,28 @@
+import type { Atom } from './atom';
+
+const KEYED_ATOMS = new Map<string, Atom<unknown>>();
+const HYDRATED_VALUES = new Map<string, unknown>();
+
+/**
+ * Registers a keyed atom, returning the value it should be initialised with
+ * (a value hydrated before its creation, if there is one, or its own initial value).
+ */
+export function registerKeyedAtom<T>(
+  key: string,
+  atom: Atom<T>,
+  initialValue: T,
+): T {
+  KEYED_ATOMS.set(key, atom as Atom<unknown>);
+  if (!HYDRATED_VALUES.has(key)) return initialValue;
+  const value = HYDRATED_VALUES.get(key) as T;
+  HYDRATED_VALUES.delete(key);
+  return value;
+}
+
+export function getKeyedAtoms() {
+  return KEYED_ATOMS;
+}
+
+export function setHydratedValue(key: string, value: unknown) {
+  HYDRATED_VALUES.set(key, value);
+}
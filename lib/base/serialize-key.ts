@@ -0,0 +1,13 @@
+/**
+ * Serialises a key into a string, so that equal keys (e.g. objects with the same entries, regardless of their order) share the same string.
+ */
+export function serializeKey(key: unknown): string {
+  return JSON.stringify(key, (_, value) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+    );
+  });
+}
@@ -0,0 +1,154 @@
+import { runInBatch } from './graph';
+import { KeyTracker } from './key-tracker';
+import { type Particle, notifySym, readSym } from './particle';
+
+/**
+ * A deeply reactive object, whose property reads are tracked per property, and whose nested objects are particles as well.
+ */
+export type Store<T> = T extends object
+  ? { -readonly [K in keyof T]: Store<T[K]> } & Particle<T>
+  : T;
+
+const ITERATION = Symbol();
+const SUBTREE = Symbol();
+
+const TRACKERS = new WeakMap<object, KeyTracker<PropertyKey>>();
+const PARENTS = new WeakMap<object, object>();
+const SNAPSHOTS = new WeakMap<object, object>();
+const PROXIES = new WeakMap<object, object>();
+const TARGETS = new WeakMap<object, object>();
+
+function isNode(x: unknown): x is object {
+  if (!x || typeof x !== 'object') return false;
+  if (Array.isArray(x)) return true;
+  const proto = Object.getPrototypeOf(x);
+  return proto === Object.prototype || proto === null;
+}
+
+function getTracker(target: object) {
+  let tracker = TRACKERS.get(target);
+  if (!tracker) {
+    tracker = new KeyTracker();
+    TRACKERS.set(target, tracker);
+  }
+  return tracker;
+}
+
+function snapshotOf<T>(value: T): T {
+  if (!isNode(value)) return value;
+  let snap = SNAPSHOTS.get(value);
+  if (!snap) {
+    snap = Object.freeze(
+      Array.isArray(value)
+        ? value.map(snapshotOf)
+        : Object.fromEntries(
+            Object.entries(value).map(([key, v]) => [key, snapshotOf(v)]),
+          ),
+    );
+    SNAPSHOTS.set(value, snap);
+  }
+  return snap as T;
+}
+
+function notifyWrite(target: object, property: PropertyKey, isNew: boolean) {
+  runInBatch(() => {
+    const tracker = TRACKERS.get(target);
+    tracker?.trigger(property);
+    if (isNew) tracker?.trigger(ITERATION);
+    for (
+      let node: object | undefined = target;
+      node;
+      node = PARENTS.get(node)
+    ) {
+      SNAPSHOTS.delete(node);
+      TRACKERS.get(node)?.trigger(SUBTREE);
+    }
+  });
+}
+
+const handler: ProxyHandler<object> = {
+  get(target, property, receiver) {
+    if (property === readSym) {
+      return () => {
+        getTracker(target).track(SUBTREE);
+        return snapshotOf(target);
+      };
+    }
+    if (property === notifySym) return () => {};
+    if (typeof property === 'symbol') {
+      return Reflect.get(target, property, receiver);
+    }
+    getTracker(target).track(property);
+    const value = Reflect.get(target, property, receiver);
+    if (!isNode(value)) return value;
+    PARENTS.set(value, target);
+    return proxyOf(value);
+  },
+  has(target, property) {
+    if (property === readSym || property === notifySym) return true;
+    getTracker(target).track(property);
+    return Reflect.has(target, property);
+  },
+  ownKeys(target) {
+    getTracker(target).track(ITERATION);
+    return Reflect.ownKeys(target);
+  },
+  set(target, property, value) {
+    const rawValue = TARGETS.get(value) ?? value;
+    const isNew = !Object.hasOwn(target, property);
+    if (!isNew && Object.is(Reflect.get(target, property), rawValue)) {
+      return true;
+    }
+    Reflect.set(target, property, rawValue);
+    if (isNode(rawValue)) PARENTS.set(rawValue, target);
+    notifyWrite(target, property, isNew);
+    return true;
+  },
+  deleteProperty(target, property) {
+    if (!Object.hasOwn(target, property)) return true;
+    Reflect.deleteProperty(target, property);
+    notifyWrite(target, property, true);
+    return true;
+  },
+};
+
+function proxyOf(target: object) {
+  let proxy = PROXIES.get(target);
+  if (!proxy) {
+    proxy = new Proxy(target, handler);
+    PROXIES.set(target, proxy);
+    TARGETS.set(proxy, target);
+  }
+  return proxy;
+}
+
+function clone<T>(value: T): T {
+  if (!isNode(value)) return value;
+  const copy = Array.isArray(value)
+    ? value.map(clone)
+    : Object.fromEntries(
+        Object.entries(value).map(([key, v]) => [key, clone(v)]),
+      );
+  for (const child of Object.values(copy)) {
+    if (isNode(child)) PARENTS.set(child, copy);
+  }
+  return copy as T;
+}
+
+/**
+ * Creates a deeply reactive {@link Store} from a (copy of the) given object.
+ * Reading a property within a molecule or a wave marks that property (and only it) as a dependency,
+ * and writing a property notifies only the dependents which read it.
+ * The store itself, and every nested object or array within it, is also a {@link Particle} whose value is a frozen {@link snapshot} of it,
+ * which is notified of any change within it.
+ *
+ * @param initialValue The initial state of the store (plain objects and arrays are copied, other values are stored as is).
+ * @returns A {@link Store} proxy, reading and writing the store's state.
+ */
+export function store<T extends object>(initialValue: T): Store<T> {
+  return proxyOf(clone(initialValue)) as Store<T>;
+}
+
+export function snapshotStore<T>(value: Store<T> | T): T {
+  return snapshotOf((TARGETS.get(value as object) ?? value) as T);
+}
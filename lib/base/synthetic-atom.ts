@@ -1,6 +1,7 @@
 import { type Atom, writeSym } from './atom';
-import { getDependents } from './graph';
-import { notifySym, readSym } from './particle';
+import { strictEqual } from './equality';
+import { getDependents, notifyDependents, setName } from './graph';
+import { type ParticleOptions, notifySym, readSym } from './particle';
 
 type Subscribe = (listener: () => void) => () => void;
 type GetSnapshot<T> = () => T;
@@ -13,17 +14,21 @@ type SendUpdate<T> = (value: T) => void;
  * @param subscribe A function which takes callback argument and subscribes it to the store (invoking it when the store's value changes). It should return an "unsubscribe" function.
  * @param getSnapshot A function which returns the current value of the store.
  * @param sendUpdate A function which accepts a new value and updates the store.
+ * @param options Additional options for configuring the synthetic atom ({@link ParticleOptions}).
  * @returns A {@link SyntheticAtom} object with read and write capabilities.
  */
 export function synth<T>(
   subscribe: Subscribe,
   getSnapshot: GetSnapshot<T>,
   sendUpdate: SendUpdate<T>,
+  { equals = strictEqual, name }: Partial<ParticleOptions<T>> = {},
 ): Atom<T> {
   let unsubscribe: null | (() => void) = null;
+  let snapshot: T;
 
   function reSubscribe() {
     unsubscribe?.();
+    snapshot = getSnapshot();
     unsubscribe = subscribe(notify);
   }
 
@@ -37,6 +42,7 @@ export function synth<T>(
     [writeSym](f) {
       const nextValue =
         typeof f === 'function' ? (f as (v: T) => T)(getSnapshot()) : f;
+      if (equals(nextValue, getSnapshot())) return;
       if (!unsubscribe) {
         reSubscribe();
       }
@@ -52,11 +58,13 @@ export function synth<T>(
       unsubscribe?.();
       unsubscribe = null;
     }
-    for (const p of deps) {
-      p[notifySym]();
-    }
+    const nextSnapshot = getSnapshot();
+    if (equals(nextSnapshot, snapshot)) return;
+    snapshot = nextSnapshot;
+    notifyDependents(atm);
   }
 
+  setName(atm, name);
   reSubscribe();
 
   return atm;
@@ -19,6 +19,11 @@ class AsyncWaveScheduler implements WaveScheduler {
     this.#waves.set(wave, effect);
   }
 
+  unregister(wave: Wave): void {
+    this.#waves.delete(wave);
+    this.#pendingWaves.delete(wave);
+  }
+
   schedule(wave: Wave): void {
     if (!this.#hadInitialRun.has(wave)) {
       this.#hadInitialRun.add(wave);
@@ -29,14 +34,20 @@ class AsyncWaveScheduler implements WaveScheduler {
     if (!this.#isRunning) {
       this.#isRunning = true;
       queueMicrotask(() => {
+        const errors: unknown[] = [];
         while (this.#pendingWaves.size) {
           const currentlyPending = [...this.#pendingWaves];
           this.#pendingWaves.clear();
           for (const wave of currentlyPending) {
-            this.#waves.get(wave)?.();
+            try {
+              this.#waves.get(wave)?.();
+            } catch (error) {
+              errors.push(error);
+            }
           }
         }
         this.#isRunning = false;
+        if (errors.length) throw errors[0];
       });
     }
   }
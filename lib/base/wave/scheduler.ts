@@ -1,9 +1,11 @@
 import type { Wave } from './types';
 
 /**
- * Interface representing a WaveScheduler with methods to register a wave with an effect and to schedule a wave's effect to run.
+ * Interface representing a WaveScheduler with methods to register a wave with an effect, to schedule a wave's effect to run,
+ * and optionally to unregister a disposed wave (cancelling any of its scheduled runs).
  */
 export interface WaveScheduler {
   register(wave: Wave, effect: () => void): void;
   schedule(wave: Wave): void;
+  unregister?(wave: Wave): void;
 }
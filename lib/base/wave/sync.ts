@@ -19,5 +19,8 @@ export const sync = ((): WaveScheduler => {
     schedule(wave: Wave) {
       waves.get(wave)?.();
     },
+    unregister(wave: Wave) {
+      waves.delete(wave);
+    },
   };
 })();
@@ -1,4 +1,22 @@
 import type { Particle } from '@/base/particle';
+import type { WaveScheduler } from './scheduler';
 
 export type Wave = Particle<void>;
-export type Unsubscribe = () => void;
+export type Unsubscribe = {
+  (): void;
+  readonly disposed: boolean;
+};
+export type Cleanup = () => void;
+
+/**
+ * Defines the WaveOptions type representing options for creating a wave.
+ *
+ * @property scheduler - The {@link WaveScheduler} to use for scheduling the effect to run.
+ * @property onError - A function called with any error thrown by the effect (the global error handler by default).
+ * @property name - A name for the wave, used for debugging (see `getName`).
+ */
+export type WaveOptions = {
+  scheduler: WaveScheduler;
+  onError: (error: unknown) => void;
+  name: string;
+};
@@ -1,10 +1,18 @@
-import { releaseDependencies, runInContext } from '@/base/graph';
+import {
+  handleError,
+  isStale,
+  registerDisposal,
+  releaseDependencies,
+  runInContext,
+  setName,
+} from '@/base/graph';
 import { notifySym, readSym } from '@/base/particle';
 import type { WaveScheduler } from './scheduler';
 import { sync } from './sync';
-import type { Unsubscribe, Wave } from './types';
+import type { Cleanup, Unsubscribe, Wave, WaveOptions } from './types';
 
 let DEFAULT_SCHEDULER: WaveScheduler = sync;
+let CURRENT_CLEANUPS: Cleanup[] | null = null;
 
 /**
  * Sets the default scheduler to be used by the wave function.
@@ -15,28 +23,89 @@ export function setDefaultScheduler(scheduler: WaveScheduler) {
   DEFAULT_SCHEDULER = scheduler;
 }
 
+/**
+ * Registers a cleanup function for the currently running wave.
+ * The cleanup function is called before the wave's next run, and when the wave is unsubscribed.
+ *
+ * @param cleanup The function to call when the current run of the wave is cleaned up.
+ */
+export function onCleanup(cleanup: Cleanup) {
+  if (!CURRENT_CLEANUPS) {
+    throw new Error('onCleanup must be called within a running wave');
+  }
+  CURRENT_CLEANUPS.push(cleanup);
+}
+
 /**
  * Declare a wave effect that will be run immediately, and when any of its dependencies change.
+ * If the effect returns a function, it is treated as a cleanup function (see {@link onCleanup}).
  *
  * @param effect A function that runs after the wave's creation and every time one of its dependencies changes.
- * @param scheduler The {@link WaveScheduler} to use for scheduling the effect to run.
- * @returns An Unsubscribe function that can be used to stop the effect and clean up any dependencies.
+ * @param schedulerOrOptions The {@link WaveScheduler} to use for scheduling the effect to run, or additional options for configuring the wave ({@link WaveOptions}).
+ * @returns An Unsubscribe function that can be used to stop the effect and clean up any dependencies. Its `disposed` property indicates whether the wave was stopped.
  */
 export function wave<T>(
   effect: () => T,
-  scheduler: WaveScheduler = DEFAULT_SCHEDULER,
+  schedulerOrOptions: WaveScheduler | Partial<WaveOptions> = {},
 ): Unsubscribe {
+  const {
+    scheduler = DEFAULT_SCHEDULER,
+    onError = handleError,
+    name,
+  }: Partial<WaveOptions> = 'schedule' in schedulerOrOptions
+    ? { scheduler: schedulerOrOptions }
+    : schedulerOrOptions;
+  let cleanups: Cleanup[] = [];
+  let disposed = false;
+
+  function cleanup() {
+    const currentCleanups = cleanups;
+    cleanups = [];
+    for (const fn of currentCleanups) {
+      try {
+        fn();
+      } catch (error) {
+        onError(error);
+      }
+    }
+  }
+
   const waveParticle = {
     [readSym]() {},
     [notifySym]() {
       scheduler.schedule(waveParticle);
     },
   } satisfies Wave;
-  scheduler.register(waveParticle, () => runInContext(waveParticle, effect));
-
-  scheduler.schedule(waveParticle);
+  setName(waveParticle, name);
+  scheduler.register(waveParticle, () => {
+    if (disposed || !isStale(waveParticle)) return;
+    cleanup();
+    const parentCleanups = CURRENT_CLEANUPS;
+    try {
+      CURRENT_CLEANUPS = cleanups;
+      const result = runInContext(waveParticle, effect);
+      if (typeof result === 'function') {
+        cleanups.push(result as Cleanup);
+      }
+    } catch (error) {
+      onError(error);
+    } finally {
+      CURRENT_CLEANUPS = parentCleanups;
+    }
+  });
 
-  return () => {
+  const unsubscribe = () => {
+    if (disposed) return;
+    disposed = true;
+    scheduler.unregister?.(waveParticle);
     releaseDependencies(waveParticle);
+    cleanup();
   };
+
+  registerDisposal(unsubscribe);
+  scheduler.schedule(waveParticle);
+
+  return Object.defineProperty(unsubscribe, 'disposed', {
+    get: () => disposed,
+  }) as Unsubscribe;
 }
@@ -1,3 +1,13 @@
+import { type Particle, get, wave } from '@/base';
+import { strictEqual } from '@/base/equality';
+import {
+  getDependents,
+  notifyDependents,
+  onUnobserved,
+  setName,
+} from '@/base/graph';
+import { type ParticleOptions, notifySym, readSym } from '@/base/particle';
+
 if (!('observable' in Symbol)) {
   // @ts-expect-error
   Symbol.observable = Symbol('@observable');
@@ -159,3 +169,112 @@ export class Observable<T> implements IObservable<T> {
     return true;
   }
 }
+
+/**
+ * Any source of values that can be subscribed to, either directly or through `Symbol.observable` (e.g. an RxJS observable).
+ */
+export type Subscribable<T> =
+  | {
+      subscribe(observer: Observer<T>): Pick<Subscription, 'unsubscribe'>;
+    }
+  | {
+      [Symbol.observable](): {
+        subscribe(observer: Observer<T>): Pick<Subscription, 'unsubscribe'>;
+      };
+    };
+
+/**
+ * Creates an {@link Observable} of the values of the given {@link Particle}.
+ * Every subscriber is immediately sent the particle's current value, and then every value it changes to.
+ * Errors thrown when reading the particle are sent to the subscriber, ending its subscription.
+ *
+ * @param particle The {@link Particle} to observe.
+ * @returns An {@link Observable} of the particle's values.
+ */
+export function toObservable<T>(particle: Particle<T>): Observable<T> {
+  return new Observable((observer) => {
+    const unsubscribe = wave(
+      () => {
+        observer.next(get(particle));
+      },
+      { onError: (error) => observer.error(error) },
+    );
+    if (observer.closed) unsubscribe();
+    return unsubscribe;
+  });
+}
+
+/**
+ * Creates a read-only {@link Particle} holding the latest value emitted by the given observable (or any other {@link Subscribable}).
+ * Much like a synthetic atom (see `synth`), the particle only subscribes to the observable while it has dependents,
+ * and keeps its latest value once unsubscribed. Errors emitted by the observable are thrown when reading the particle.
+ *
+ * @param observable The observable to subscribe to.
+ * @param initialValue The value of the particle until the observable emits one.
+ * @param options Additional options for configuring the particle ({@link ParticleOptions}).
+ * @returns A {@link Particle} of the observable's latest value.
+ */
+export function fromObservable<T>(
+  observable: Subscribable<T>,
+  initialValue: T,
+  { equals = strictEqual, name }: Partial<ParticleOptions<T>> = {},
+): Particle<T> {
+  let value = initialValue;
+  let error: { error: unknown } | null = null;
+  let subscription: Pick<Subscription, 'unsubscribe'> | null = null;
+  let isSubscribing = false;
+  let isComplete = false;
+
+  function update(nextValue: T, nextError: { error: unknown } | null) {
+    if (!nextError && !error && equals(nextValue, value)) return;
+    value = nextValue;
+    error = nextError;
+    if (!isSubscribing) notifyDependents(prt);
+  }
+
+  function subscribe() {
+    const source =
+      Symbol.observable in observable
+        ? observable[Symbol.observable]()
+        : observable;
+    isSubscribing = true;
+    try {
+      const currentSubscription = source.subscribe({
+        next: (nextValue) => update(nextValue, null),
+        error: (nextError) => {
+          isComplete = true;
+          update(value, { error: nextError });
+        },
+        complete: () => {
+          isComplete = true;
+        },
+      });
+      if (isComplete) {
+        currentSubscription.unsubscribe();
+      } else {
+        subscription = currentSubscription;
+      }
+    } finally {
+      isSubscribing = false;
+    }
+  }
+
+  const prt = {
+    [readSym]() {
+      if (getDependents(prt).size && !subscription && !isComplete) {
+        subscribe();
+      }
+      if (error) throw error.error;
+      return value;
+    },
+    [notifySym]() {},
+  } satisfies Particle<T>;
+
+  onUnobserved(prt, () => {
+    subscription?.unsubscribe();
+    subscription = null;
+  });
+  setName(prt, name);
+
+  return prt;
+}
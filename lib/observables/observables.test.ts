@@ -0,0 +1,84 @@
+import { expect, mock, test } from 'bun:test';
+import { atom, get, molecule, set, wave } from '@/base';
+import {
+  Observable,
+  type SubscriptionObserver,
+  fromObservable,
+  toObservable,
+} from '.';
+
+test('toObservable', () => {
+  const count = atom(1);
+  const doubled = molecule(() => {
+    if (get(count) < 0) throw new Error('negative');
+    return get(count) * 2;
+  });
+  const next = mock();
+  const error = mock();
+
+  const subscription = toObservable(doubled).subscribe(next, error);
+  expect(next).toHaveBeenLastCalledWith(2);
+  set(count, 2);
+  expect(next).toHaveBeenLastCalledWith(4);
+
+  set(count, -1);
+  expect(error).toHaveBeenCalledTimes(1);
+  expect(subscription.closed).toBeTrue();
+  set(count, 3);
+  expect(next).toHaveBeenCalledTimes(2);
+});
+
+test('fromObservable subscribes while observed', () => {
+  let emit = (value: number) => {};
+  const teardown = mock();
+  const subscriber = mock((o: SubscriptionObserver<number>) => {
+    emit = o.next;
+    o.next(1);
+    return teardown;
+  });
+  const value = fromObservable(new Observable(subscriber), 0);
+
+  expect(get(value)).toBe(0);
+  expect(subscriber).not.toHaveBeenCalled();
+
+  const m = mock();
+  const stop = wave(() => {
+    m(get(value));
+  });
+  expect(subscriber).toHaveBeenCalledTimes(1);
+  expect(m).toHaveBeenLastCalledWith(1);
+
+  emit(2);
+  expect(m).toHaveBeenLastCalledWith(2);
+  emit(2);
+  expect(m).toHaveBeenCalledTimes(2);
+
+  stop();
+  expect(teardown).toHaveBeenCalledTimes(1);
+  expect(get(value)).toBe(2);
+});
+
+test('fromObservable interop', () => {
+  const value = fromObservable(toObservable(atom('a')), '');
+  const m = mock();
+  wave(() => {
+    m(get(value));
+  });
+  expect(m).toHaveBeenLastCalledWith('a');
+
+  const failing = fromObservable(
+    new Observable<number>((observer) => observer.error(new Error('boom'))),
+    0,
+  );
+  const errors = molecule(() => {
+    try {
+      return get(failing);
+    } catch (e) {
+      return (e as Error).message;
+    }
+  });
+  wave(() => {
+    m(get(errors));
+  });
+  expect(m).toHaveBeenLastCalledWith('boom');
+});
@@ -1,7 +1,13 @@
-import { get } from '@/base/ops';
+import { get, scope } from '@/base/ops';
 import type { Particle } from '@/base/particle';
 import { async, wave } from '@/base/wave';
-import { type Reaction, createQuantumPair, createReaction } from '@/reaction';
+import {
+  type Reaction,
+  type ReactionContext,
+  type ReactionOptions,
+  createQuantumPair,
+  createReaction,
+} from '@/reaction';
 import {
   type ComponentType,
   type PropsWithChildren,
@@ -10,6 +16,7 @@ import {
   isValidElement,
   memo,
   useContext,
+  useEffect,
   useInsertionEffect,
   useRef,
   useState,
@@ -44,7 +51,11 @@ function createParticleStore<T>(particle: Particle<T>): ExternalStore<T> {
  */
 export function useParticleValue<T>(particle: Particle<T>): T {
   const [store] = useState(() => createParticleStore(particle));
-  const value = useSyncExternalStore(store.subscribe, store.getState);
+  const value = useSyncExternalStore(
+    store.subscribe,
+    store.getState,
+    store.getState,
+  );
   return value;
 }
 
@@ -135,26 +146,70 @@ export function useParticle<T>(particleValue: T): Particle<T> {
  *
  * @param input the input value to observe
  * @param query the asynchronous function to execute when the input changes
+ * @param options additional options for configuring the reaction (e.g. a `cache` shared by every component querying the same data)
  * @returns the output reaction
  */
 export function useReactiveQuery<Input, Output>(
   input: Input,
-  query: (input: Input) => Promise<Output>,
+  query: (input: Input, context: ReactionContext) => Promise<Output>,
+  options: Partial<ReactionOptions> = {},
 ) {
   const input$ = useParticle(input);
   const [reaction] = useState(() =>
-    createReaction(input$, query, { autoObserve: false, keepPrevious: true }),
+    createReaction(input$, query, {
+      keepPrevious: true,
+      ...options,
+      autoObserve: false,
+    }),
   );
   return useReaction(reaction);
 }
 
+/**
+ * Create an injectable organism: a provider component sharing the object created by the factory with its descendants.
+ * Every wave, molecule and reaction created within the factory is disposed of when the provider unmounts.
+ *
+ * @param organismFactory the function creating the shared object
+ * @returns the provider component, with a `use` hook that returns the shared object
+ */
 export function createOrganism<T>(organismFactory: () => T) {
   const OrganismContext = createContext<T | null>(null);
-  function Organism({ children }: PropsWithChildren) {
-    const [organism] = useState(organismFactory);
+  // StrictMode renders a mounting component twice with fresh hooks but the same props object,
+  // so both renders share the organism created by the first one until it is committed
+  const rendered = new WeakMap<
+    object,
+    {
+      organism: T;
+      dispose: () => void;
+      isCommitted: boolean;
+      isMounted: boolean;
+    }
+  >();
+
+  function Organism(props: PropsWithChildren) {
+    const [instance] = useState(() => {
+      let current = rendered.get(props);
+      if (!current || current.isCommitted) {
+        const [organism, dispose] = scope(organismFactory);
+        current = { organism, dispose, isCommitted: false, isMounted: false };
+        rendered.set(props, current);
+      }
+      return current;
+    });
+    useEffect(() => {
+      instance.isCommitted = true;
+      instance.isMounted = true;
+      return () => {
+        // StrictMode re-mounts synchronously, so only dispose if the organism stays unmounted
+        instance.isMounted = false;
+        queueMicrotask(() => {
+          if (!instance.isMounted) instance.dispose();
+        });
+      };
+    }, [instance]);
     return (
-      <OrganismContext.Provider value={organism}>
-        {children}
+      <OrganismContext.Provider value={instance.organism}>
+        {props.children}
       </OrganismContext.Provider>
     );
   }
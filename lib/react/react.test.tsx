@@ -1,9 +1,16 @@
-import { expect, test } from 'bun:test';
-import { atom, get, molecule, set, synth } from '@/base';
+import { expect, mock, test } from 'bun:test';
+import { atom, atomFamily, get, molecule, set, synth, wave } from '@/base';
+import { QueryCache } from '@/reaction';
 import { SimpleStore } from '@/utils';
-import { render, waitFor } from '@testing-library/react';
+import { act, render, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { Profiler, type PropsWithChildren, useEffect, useState } from 'react';
+import {
+  Profiler,
+  type PropsWithChildren,
+  StrictMode,
+  useEffect,
+  useState,
+} from 'react';
 import {
   Link,
   RouterProvider,
@@ -205,6 +212,32 @@ test('organisms', async () => {
   ).not.toBeNull();
 });
 
+test('organisms dispose their waves on unmount', async () => {
+  const count = atom(0);
+  const m = mock();
+
+  const CountService = createOrganism(() => {
+    wave(() => {
+      m(get(count));
+    });
+    return { count };
+  });
+
+  const app = render(
+    <CountService>
+      <p>counting</p>
+    </CountService>,
+  );
+
+  set(count, 1);
+  expect(m).toHaveBeenCalledTimes(2);
+
+  app.unmount();
+  await Bun.sleep(0);
+  set(count, 2);
+  expect(m).toHaveBeenCalledTimes(2);
+});
+
 test('query params atoms', async () => {
   function useSearchParamsAtom() {
     const [params, setParams] = useSearchParams();
@@ -318,7 +351,7 @@ test('useParticle and useReactiveQuery', async () => {
   expect(scn.state.textContent).toBe('idle');
   expect(scn.result.textContent).toBe('');
   expect(scn.error.textContent).toBe('No error');
-  
+
   await user.selectOptions(app.getByRole('combobox'), 'Alice');
   expect(scn.state.textContent).toBe('pending');
   expect(scn.result.textContent).toBe('');
@@ -343,3 +376,135 @@ test('useParticle and useReactiveQuery', async () => {
   expect(scn.result.textContent).toBe('');
   expect(scn.error.textContent).toBe('User not found');
 });
+
+test('useReactiveQuery with a shared cache', async () => {
+  const cache = new QueryCache({ staleTime: 1000 });
+  const query = mock(async (user: string) => {
+    await Bun.sleep(10);
+    return user.toUpperCase();
+  });
+
+  function Name({ testId }: { testId: string }) {
+    const { result } = useReactiveQuery('alice', query, { cache });
+    return <p data-testid={testId}>{$(result)}</p>;
+  }
+
+  const app = render(
+    <>
+      <Name testId="first" />
+      <Name testId="second" />
+    </>,
+  );
+  await waitFor(() =>
+    expect(app.getByTestId('first').textContent).toBe('ALICE'),
+  );
+  await waitFor(() =>
+    expect(app.getByTestId('second').textContent).toBe('ALICE'),
+  );
+  expect(query).toHaveBeenCalledTimes(1);
+
+  app.rerender(<Name testId="remounted" />);
+  await waitFor(() =>
+    expect(app.getByTestId('remounted').textContent).toBe('ALICE'),
+  );
+  expect(query).toHaveBeenCalledTimes(1);
+});
+
+test('atom families under StrictMode', async () => {
+  const todos = atomFamily((id: number) => `todo ${id}`);
+
+  function Todo() {
+    return <p>{useParticleValue(todos(1))}</p>;
+  }
+
+  const app = render(
+    <StrictMode>
+      <Todo />
+    </StrictMode>,
+  );
+  expect(app.getByText('todo 1')).not.toBeNull();
+  await Bun.sleep(0);
+
+  await act(async () => {
+    set(todos(1), 'edited');
+  });
+  expect(app.getByText('edited')).not.toBeNull();
+});
+
+test('organisms under StrictMode', async () => {
+  const source = atom(0);
+  const runs: number[] = [];
+  const Counter = createOrganism(() => {
+    const count = atom(0);
+    wave(() => {
+      runs.push(get(source));
+      set(count, (value) => value + 1);
+    });
+    return { count };
+  });
+
+  function Count() {
+    const { count } = Counter.use();
+    return <p>runs: {$(count)}</p>;
+  }
+
+  const app = render(
+    <StrictMode>
+      <Counter>
+        <Count />
+      </Counter>
+    </StrictMode>,
+  );
+  await Bun.sleep(0);
+  runs.length = 0;
+
+  await act(async () => {
+    set(source, 1);
+  });
+  expect(runs).toEqual([1]);
+  expect(app.getByText('runs: 2')).not.toBeNull();
+
+  app.unmount();
+  await Bun.sleep(0);
+  set(source, 2);
+  expect(runs).toEqual([1]);
+});
+
+test('nested organisms', async () => {
+  const Counter = createOrganism(() => {
+    const source = atom(0);
+    const count = atom(0);
+    wave(() => {
+      set(count, get(source));
+    });
+    return { source, count };
+  });
+
+  const outer: ReturnType<typeof Counter.use>[] = [];
+  function Outer({ children }: PropsWithChildren) {
+    outer.push(Counter.use());
+    return <>{children}</>;
+  }
+
+  function Count() {
+    const { count } = Counter.use();
+    return <p>count: {$(count)}</p>;
+  }
+
+  const app = render(
+    <StrictMode>
+      <Counter>
+        <Outer>
+          <Counter>
+            <Count />
+          </Counter>
+        </Outer>
+      </Counter>
+    </StrictMode>,
+  );
+  await Bun.sleep(0);
+  const { source, count } = outer[outer.length - 1];
+  set(source, 1);
+  expect(get(count)).toBe(1);
+  expect(app.getByText('count: 0')).not.toBeNull();
+});
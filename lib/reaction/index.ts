@@ -1,2 +1,4 @@
 export * from './quantum-pair';
 export * from './reaction';
+export * from './query-cache';
+export * from './mutation';
@@ -0,0 +1,127 @@
+import { type Atom, type Particle, batch, peek, set } from '@/base';
+import { runInRecorder } from '@/base/graph';
+import { createQuantumPair } from './quantum-pair';
+import type { ReactionState } from './reaction';
+
+/**
+ * Defines the MutationState type representing the state of a mutation's latest run.
+ */
+export type MutationState = Exclude<ReactionState, 'cancelled'>;
+
+/**
+ * Defines a Mutation type that represents a set of particles for result, error, and state,
+ * along with methods to run the mutation, and to reset it.
+ */
+export type Mutation<Input, Result> = {
+  result: Particle<Result | null>;
+  error: Particle<unknown | null>;
+  state: Particle<MutationState>;
+  mutate: (input: Input) => void;
+  mutateAsync: (input: Input) => Promise<Result>;
+  reset: () => void;
+};
+
+/**
+ * Defines the MutationOptions type representing options for creating a mutation.
+ *
+ * @property onMutate - A function called with the input before the action runs. Atoms it (synchronously) sets are restored to their previous values if the action rejects (unless they were changed since, e.g. by a later run). Changes to collections and stores (e.g. `atomArray`, `store`) are not rolled back. Its return value is passed as context to `onSuccess` and `onError`.
+ * @property onSuccess - A function called with the result, the input and the context once the action resolves.
+ * @property onError - A function called with the error, the input and the context once the action rejects (after the optimistic updates were rolled back).
+ * @property name - A name for the mutation, used for naming its particles when debugging (e.g. `name.state`).
+ */
+export type MutationOptions<Input, Result, Context> = {
+  onMutate: (input: Input) => Context;
+  onSuccess: (result: Result, input: Input, context: Context) => void;
+  onError: (error: unknown, input: Input, context: Context | undefined) => void;
+  name: string;
+};
+
+/**
+ * Creates a mutation that runs an asynchronous action (e.g. a POST request) on demand.
+ * The mutation manages the state of its latest run (idle, pending, success, error) and provides
+ * particles for the result and error values.
+ *
+ * @param action The asynchronous function to be executed when the mutation runs.
+ * @param options Additional options for configuring the mutation ({@link MutationOptions}).
+ * @returns A {@link Mutation} object containing the result particle, error particle, state particle, and methods to run/reset the mutation.
+ */
+export function createMutation<Input, Result, Context = undefined>(
+  action: (input: Input) => Promise<Result>,
+  {
+    onMutate,
+    onSuccess,
+    onError,
+    name,
+  }: Partial<MutationOptions<Input, Result, Context>> = {},
+): Mutation<Input, Result> {
+  const nameOf = (part: string) => (name ? `${name}.${part}` : undefined);
+  const [state, setState] = createQuantumPair<MutationState>('idle', {
+    name: nameOf('state'),
+  });
+  const [result, setResult] = createQuantumPair<Result | null>(null, {
+    name: nameOf('result'),
+  });
+  const [error, setError] = createQuantumPair<unknown | null>(null, {
+    name: nameOf('error'),
+  });
+  let latestRun = 0;
+
+  function settle(
+    run: number,
+    nextState: MutationState,
+    nextResult: Result | null,
+    nextError: unknown,
+  ) {
+    if (run !== latestRun) return;
+    batch(() => {
+      setResult(nextResult);
+      setError(nextError);
+      setState(nextState);
+    });
+  }
+
+  async function mutateAsync(input: Input) {
+    const run = ++latestRun;
+    let context: Context | undefined;
+    const writes = new Map<Particle<unknown>, unknown>();
+    const written = new Map<Particle<unknown>, unknown>();
+    let value: Result;
+    try {
+      batch(() => {
+        settle(run, 'pending', null, null);
+        context = runInRecorder(writes, () => onMutate?.(input));
+      });
+      for (const atm of writes.keys()) {
+        written.set(atm, peek(atm));
+      }
+      value = await action(input);
+    } catch (e) {
+      batch(() => {
+        for (const [atm, previousValue] of writes) {
+          // atoms changed since (e.g. by a later run) are left as they are
+          if (written.has(atm) && peek(atm) !== written.get(atm)) continue;
+          set(atm as Atom<unknown>, previousValue);
+        }
+      });
+      settle(run, 'error', null, e);
+      onError?.(e, input, context);
+      throw e;
+    }
+    settle(run, 'success', value, null);
+    onSuccess?.(value, input, context as Context);
+    return value;
+  }
+
+  return {
+    result,
+    error,
+    state,
+    mutate(input) {
+      mutateAsync(input).catch(() => {});
+    },
+    mutateAsync,
+    reset() {
+      settle(++latestRun, 'idle', null, null);
+    },
+  };
+}
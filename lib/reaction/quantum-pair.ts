@@ -1,26 +1,35 @@
-import { getDependents } from '@/base/graph';
-import { type Particle, notifySym, readSym } from '@/base/particle';
+import { strictEqual } from '@/base/equality';
+import { notifyDependents, setName } from '@/base/graph';
+import {
+  type Particle,
+  type ParticleOptions,
+  notifySym,
+  readSym,
+} from '@/base/particle';
 
 /**
  * Creates a "quantum pair" consisting of a particle and a write function.
  *
  * @param initialValue The initial value of the quantum pair.
+ * @param options Additional options for configuring the particle ({@link ParticleOptions}).
  * @returns A tuple containing the particle and the write function.
  */
-export function createQuantumPair<T>(initialValue: T) {
+export function createQuantumPair<T>(
+  initialValue: T,
+  { equals = strictEqual, name }: Partial<ParticleOptions<T>> = {},
+) {
   let value = initialValue;
 
   const prt = {
     [readSym]: () => value,
     [notifySym]() {},
   } satisfies Particle<T>;
+  setName(prt, name);
 
   const write = (nextValue: T) => {
-    if (nextValue !== value) {
+    if (!equals(nextValue, value)) {
       value = nextValue;
-      for (const p of getDependents(prt)) {
-        p[notifySym]();
-      }
+      notifyDependents(prt);
     }
   };
 
@@ -0,0 +1,208 @@
+import { serializeKey } from '@/base/serialize-key';
+
+type QueryEntry = {
+  key: unknown;
+  data: { value: unknown } | null;
+  updatedAt: number;
+  promise: Promise<unknown> | null;
+  controller: AbortController | null;
+  waiters: number;
+  listeners: Set<() => void>;
+  gcTimer: ReturnType<typeof setTimeout> | undefined;
+};
+
+/**
+ * Defines the QueryCacheOptions type representing options for creating a query cache.
+ *
+ * @property staleTime - The time (in milliseconds) for which a cached result is served without re-running its query (`0` by default).
+ * @property gcTime - The time (in milliseconds) after which a cached result with no subscribers is removed (5 minutes by default).
+ */
+export type QueryCacheOptions = {
+  staleTime: number;
+  gcTime: number;
+};
+
+/**
+ * Defines the QueryFetchOptions type representing options for fetching the result of a key.
+ *
+ * @property signal - An AbortSignal to stop awaiting the result with.
+ * @property force - A boolean indicating whether the query should be run even if there is a fresh cached result (an in-flight one is still shared).
+ */
+export type QueryFetchOptions = {
+  signal: AbortSignal;
+  force: boolean;
+};
+
+/**
+ * A cache of query results, keyed by a serialisable key (e.g. a reaction's trigger value).
+ * Concurrent fetches of the same key share a single in-flight promise, and results are served from the cache until they become stale.
+ *
+ * @see {@link createReaction}'s `cache` option.
+ */
+export class QueryCache {
+  #entries = new Map<string, QueryEntry>();
+  #staleTime: number;
+  #gcTime: number;
+
+  constructor({
+    staleTime = 0,
+    gcTime = 5 * 60 * 1000,
+  }: Partial<QueryCacheOptions> = {}) {
+    this.#staleTime = staleTime;
+    this.#gcTime = gcTime;
+  }
+
+  #getEntry(key: unknown) {
+    const serializedKey = serializeKey(key);
+    let entry = this.#entries.get(serializedKey);
+    if (!entry) {
+      entry = {
+        key,
+        data: null,
+        updatedAt: Number.NEGATIVE_INFINITY,
+        promise: null,
+        controller: null,
+        waiters: 0,
+        listeners: new Set(),
+        gcTimer: undefined,
+      };
+      this.#entries.set(serializedKey, entry);
+      this.#scheduleGc(serializedKey, entry);
+    }
+    return entry;
+  }
+
+  #scheduleGc(serializedKey: string, entry: QueryEntry) {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = undefined;
+    if (entry.listeners.size || !Number.isFinite(this.#gcTime)) return;
+    entry.gcTimer = setTimeout(() => {
+      if (this.#entries.get(serializedKey) !== entry) return;
+      this.#entries.delete(serializedKey);
+      entry.controller?.abort();
+    }, this.#gcTime);
+  }
+
+  #wait<T>(entry: QueryEntry, promise: Promise<T>, signal?: AbortSignal) {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      let isWaiting = true;
+      entry.waiters++;
+      const leave = () => {
+        if (!isWaiting) return false;
+        isWaiting = false;
+        entry.waiters--;
+        signal?.removeEventListener('abort', onAbort);
+        return true;
+      };
+      const onAbort = () => {
+        if (!leave()) return;
+        // the query is aborted (and discarded) once nobody awaits it any more
+        if (!entry.waiters && entry.promise === promise) {
+          entry.controller?.abort(signal?.reason);
+          entry.promise = null;
+          entry.controller = null;
+        }
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      promise.then(
+        (value) => {
+          if (leave()) resolve(value);
+        },
+        (error) => {
+          if (leave()) reject(error);
+        },
+      );
+    });
+  }
+
+  /**
+   * Fetches the result of the given key, running the query only if there is no fresh cached result nor an in-flight one.
+   *
+   * @param key The key to fetch the result of.
+   * @param query The asynchronous function producing the result. It is passed an AbortSignal that is aborted once the key is garbage-collected, or once every fetch awaiting it was aborted.
+   * @param options Additional options for fetching the result ({@link QueryFetchOptions}).
+   * @returns A promise of the key's result.
+   */
+  fetch<T>(
+    key: unknown,
+    query: (signal: AbortSignal) => Promise<T>,
+    { signal, force = false }: Partial<QueryFetchOptions> = {},
+  ): Promise<T> {
+    const entry = this.#getEntry(key);
+    if (entry.promise) {
+      return this.#wait(entry, entry.promise as Promise<T>, signal);
+    }
+    if (
+      !force &&
+      entry.data &&
+      Date.now() - entry.updatedAt < this.#staleTime
+    ) {
+      return Promise.resolve(entry.data.value as T);
+    }
+    const controller = new AbortController();
+    const promise = query(controller.signal).then(
+      (value) => {
+        if (entry.promise === promise) {
+          entry.data = { value };
+          entry.updatedAt = Date.now();
+          entry.promise = null;
+          entry.controller = null;
+        }
+        return value;
+      },
+      (error) => {
+        if (entry.promise === promise) {
+          entry.promise = null;
+          entry.controller = null;
+        }
+        throw error;
+      },
+    );
+    entry.promise = promise;
+    entry.controller = controller;
+    return this.#wait(entry, promise, signal);
+  }
+
+  /**
+   * Subscribes to the invalidation of the given key. A key is never garbage-collected while it has subscribers.
+   *
+   * @param key The key to subscribe to.
+   * @param listener A function called whenever the key is invalidated.
+   * @returns A function that unsubscribes the listener.
+   */
+  subscribe(key: unknown, listener: () => void): () => void {
+    const serializedKey = serializeKey(key);
+    const entry = this.#getEntry(key);
+    entry.listeners.add(listener);
+    this.#scheduleGc(serializedKey, entry);
+    return () => {
+      entry.listeners.delete(listener);
+      this.#scheduleGc(serializedKey, entry);
+    };
+  }
+
+  /**
+   * Invalidates the results of every key matching the given predicate (or every key, if none is given),
+   * aborting (and discarding) their in-flight queries and notifying their subscribers, so that they are fetched anew.
+   *
+   * @param predicate A function accepting a key, and returning whether it should be invalidated.
+   */
+  invalidateQueries(predicate: (key: unknown) => boolean = () => true) {
+    const invalidated = [...this.#entries.values()].filter((entry) =>
+      predicate(entry.key),
+    );
+    for (const entry of invalidated) {
+      entry.updatedAt = Number.NEGATIVE_INFINITY;
+      entry.controller?.abort();
+      entry.promise = null;
+      entry.controller = null;
+    }
+    for (const entry of invalidated) {
+      for (const listener of [...entry.listeners]) {
+        listener();
+      }
+    }
+  }
+}
@@ -1,9 +1,25 @@
-import { expect, test } from 'bun:test';
-import { type Particle, atom, get, molecule, set, wave } from '@/base';
+import { expect, jest, mock, test } from 'bun:test';
+import {
+  type Particle,
+  atom,
+  atomArray,
+  get,
+  molecule,
+  peek,
+  set,
+  wave,
+} from '@/base';
 import { $, useParticleValue, useReaction } from '@/react';
 import { render } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { createReaction } from '.';
+import { QueryCache, createMutation, createReaction } from '.';
+
+// fake timers are supported by bun, but missing from the installed bun-types
+const timers = jest as typeof jest & {
+  useFakeTimers(): void;
+  useRealTimers(): void;
+  advanceTimersByTime(ms: number): void;
+};
 
 function waitForParticleValue<T>(particle: Particle<T>, value: T) {
   return new Promise<void>((resolve, reject) => {
@@ -20,6 +36,15 @@ function waitForParticleValue<T>(particle: Particle<T>, value: T) {
   });
 }
 
+function tick() {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+function waitUntilParticleValue<T>(particle: Particle<T>, value: T) {
+  if (peek(particle) === value) return Promise.resolve();
+  return waitForParticleValue(particle, value);
+}
+
 test('reaction (success)', async () => {
   const resourceId = atom(0);
   const trigger = molecule(() => `/resource/${get(resourceId)}`);
@@ -65,6 +90,348 @@ test('reaction (error)', async () => {
   expect(get(reaction.error)).toBe(-1);
 });
 
+test('reaction (cancellation)', async () => {
+  const resourceId = atom(0);
+  const signals: AbortSignal[] = [];
+  const reaction = createReaction(
+    resourceId,
+    (id, { signal }) => {
+      signals.push(signal);
+      return new Promise<number>((resolve) => setTimeout(resolve, 10, id));
+    },
+    { autoObserve: false },
+  );
+
+  reaction.observe();
+  await Bun.sleep(0);
+  set(resourceId, 1);
+  await waitForParticleValue(reaction.state, 'success');
+  expect(get(reaction.result)).toBe(1);
+  expect(signals.map((signal) => signal.aborted)).toEqual([true, false]);
+
+  set(resourceId, 2);
+  await Bun.sleep(0);
+  reaction.cancel();
+  expect(get(reaction.state)).toBe('cancelled');
+  expect(signals[2].aborted).toBeTrue();
+  await Bun.sleep(20);
+  expect(get(reaction.state)).toBe('cancelled');
+  expect(get(reaction.result)).toBe(null);
+
+  set(resourceId, 3);
+  await Bun.sleep(0);
+  reaction.unobserve();
+  expect(get(reaction.state)).toBe('cancelled');
+  expect(signals[3].aborted).toBeTrue();
+
+  reaction.observe();
+  await waitForParticleValue(reaction.state, 'success');
+  expect(get(reaction.result)).toBe(3);
+  expect(signals).toHaveLength(5);
+});
+
+test('reaction (retry)', async () => {
+  const resourceId = atom(0);
+  let calls = 0;
+  const reaction = createReaction(
+    resourceId,
+    async (id) => {
+      calls++;
+      if (calls < 3) throw new Error('flaky');
+      return id;
+    },
+    { retry: 2, retryDelay: () => 1 },
+  );
+  await waitForParticleValue(reaction.state, 'success');
+  expect(get(reaction.result)).toBe(0);
+  expect(get(reaction.attempt)).toBe(3);
+
+  calls = -10;
+  set(resourceId, 1);
+  await waitForParticleValue(reaction.state, 'error');
+  expect(get(reaction.error)).toEqual(new Error('flaky'));
+  expect(get(reaction.attempt)).toBe(3);
+  expect(calls).toBe(-7);
+});
+
+test('reaction (retry predicate and timeout)', async () => {
+  const signals: AbortSignal[] = [];
+  const retry = mock(
+    (failureCount: number, error: unknown) =>
+      (error as Error).name === 'TimeoutError' && failureCount < 5,
+  );
+  const reaction = createReaction(
+    atom(0),
+    (_, { signal }) => {
+      signals.push(signal);
+      return new Promise<string>((resolve) =>
+        setTimeout(resolve, signals.length < 3 ? 50 : 0, 'done'),
+      );
+    },
+    { retry, retryDelay: () => 0, timeout: 20 },
+  );
+  await waitForParticleValue(reaction.state, 'success');
+  expect(get(reaction.result)).toBe('done');
+  expect(get(reaction.attempt)).toBe(3);
+  expect(retry).toHaveBeenCalledTimes(2);
+  expect(signals.map((signal) => signal.aborted)).toEqual([true, true, false]);
+});
+
+test('reaction (refetch and invalidate)', async () => {
+  let version = 0;
+  const reaction = createReaction(atom('/resource'), async () => {
+    await Bun.sleep(5);
+    return ++version;
+  });
+  await waitForParticleValue(reaction.state, 'success');
+  expect(get(reaction.result)).toBe(1);
+
+  reaction.refetch();
+  await Bun.sleep(0);
+  expect(get(reaction.state)).toBe('pending');
+  expect(get(reaction.result)).toBe(1);
+  await waitForParticleValue(reaction.state, 'success');
+  expect(get(reaction.result)).toBe(2);
+
+  reaction.invalidate();
+  await Bun.sleep(0);
+  expect(get(reaction.state)).toBe('pending');
+  expect(get(reaction.result)).toBe(null);
+  await waitForParticleValue(reaction.state, 'success');
+  expect(get(reaction.result)).toBe(3);
+});
+
+test('reaction (polling)', async () => {
+  timers.useFakeTimers();
+  try {
+    let version = 0;
+    const reaction = createReaction(atom('/resource'), async () => ++version, {
+      autoObserve: false,
+      refetchInterval: 40,
+      refetchOnFocus: true,
+      refetchOnReconnect: true,
+    });
+    reaction.observe();
+    await tick();
+    expect(get(reaction.result)).toBe(1);
+
+    timers.advanceTimersByTime(60);
+    await tick();
+    expect(get(reaction.result)).toBe(2);
+
+    window.dispatchEvent(new Event('focus'));
+    await tick();
+    expect(get(reaction.result)).toBe(3);
+
+    window.dispatchEvent(new Event('online'));
+    await tick();
+    expect(get(reaction.result)).toBe(4);
+
+    reaction.unobserve();
+    timers.advanceTimersByTime(100);
+    window.dispatchEvent(new Event('focus'));
+    window.dispatchEvent(new Event('online'));
+    await tick();
+    expect(version).toBe(4);
+  } finally {
+    timers.useRealTimers();
+  }
+});
+
+test('reaction (query cache)', async () => {
+  const cache = new QueryCache({ staleTime: 1000, gcTime: 20 });
+  const query = mock(async (id: number) => {
+    await Bun.sleep(5);
+    return `user ${id}`;
+  });
+  const userId = atom(1);
+  const first = createReaction(userId, query, { cache });
+  const second = createReaction(userId, query, { cache });
+  await waitForParticleValue(first.state, 'success');
+  await waitUntilParticleValue(second.state, 'success');
+  expect(get(second.result)).toBe('user 1');
+  expect(query).toHaveBeenCalledTimes(1);
+
+  const third = createReaction(userId, query, { cache });
+  await waitForParticleValue(third.state, 'success');
+  expect(get(third.result)).toBe('user 1');
+  expect(query).toHaveBeenCalledTimes(1);
+
+  cache.invalidateQueries((key) => key === 2);
+  cache.invalidateQueries((key) => key === 1);
+  await Bun.sleep(0);
+  expect(get(first.state)).toBe('pending');
+  expect(get(first.result)).toBe('user 1');
+  await waitForParticleValue(first.state, 'success');
+  expect(query).toHaveBeenCalledTimes(2);
+
+  for (const reaction of [first, second, third]) reaction.unobserve();
+  await Bun.sleep(30);
+  await cache.fetch(1, () => query(1));
+  expect(query).toHaveBeenCalledTimes(3);
+});
+
+test('reaction (query cache refetch)', async () => {
+  const cache = new QueryCache({ staleTime: 60_000 });
+  let version = 0;
+  const query = mock(async () => ++version);
+  const reaction = createReaction(atom(1), query, { cache });
+  await waitForParticleValue(reaction.state, 'success');
+  expect(get(reaction.result)).toBe(1);
+
+  reaction.refetch();
+  await waitForParticleValue(reaction.result, 2);
+  expect(query).toHaveBeenCalledTimes(2);
+  expect(await cache.fetch(1, query)).toBe(2);
+  expect(query).toHaveBeenCalledTimes(2);
+});
+
+test('reaction (query cache invalidation aborts in-flight queries)', async () => {
+  const cache = new QueryCache();
+  const signals: AbortSignal[] = [];
+  const query = mock((id: number, { signal }: { signal: AbortSignal }) => {
+    signals.push(signal);
+    return new Promise<number>((resolve, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason));
+      setTimeout(resolve, 10, signals.length);
+    });
+  });
+  const reaction = createReaction(atom(1), query, { cache });
+  await Bun.sleep(0);
+  expect(signals).toHaveLength(1);
+
+  cache.invalidateQueries();
+  expect(signals[0].aborted).toBeTrue();
+  await waitForParticleValue(reaction.state, 'success');
+  expect(get(reaction.result)).toBe(2);
+  expect(query).toHaveBeenCalledTimes(2);
+});
+
+test('reaction (query cache timeouts and cancellation)', async () => {
+  const cache = new QueryCache();
+  const signals: AbortSignal[] = [];
+  const query = mock((id: number, { signal }: { signal: AbortSignal }) => {
+    signals.push(signal);
+    return signals.length === 1
+      ? new Promise<number>(() => {})
+      : Bun.sleep(5).then(() => id);
+  });
+  const userId = atom(1);
+  const reaction = createReaction(userId, query, {
+    cache,
+    timeout: 20,
+    retry: 2,
+    retryDelay: () => 0,
+  });
+  await waitForParticleValue(reaction.state, 'success');
+  expect(get(reaction.result)).toBe(1);
+  expect(query).toHaveBeenCalledTimes(2);
+  expect(signals[0].aborted).toBeTrue();
+
+  set(userId, 2);
+  await Bun.sleep(0);
+  set(userId, 3);
+  await Bun.sleep(0);
+  expect(signals[2].aborted).toBeTrue();
+  reaction.cancel();
+  expect(signals[3].aborted).toBeTrue();
+  expect(get(reaction.state)).toBe('cancelled');
+});
+
+test('mutation (optimistic update)', async () => {
+  const todos = atom(['a']);
+  const count = molecule(() => get(todos).length);
+  const onSuccess = mock();
+  const onError = mock();
+  const addTodo = createMutation(
+    async (todo: string) => {
+      await Bun.sleep(5);
+      if (todo === 'fail') throw new Error('boom');
+      return todo.toUpperCase();
+    },
+    {
+      onMutate: (todo) => {
+        const previous = get(todos);
+        set(todos, [...previous, todo]);
+        return previous.length;
+      },
+      onSuccess,
+      onError,
+    },
+  );
+  expect(get(addTodo.state)).toBe('idle');
+
+  const pending = addTodo.mutateAsync('b');
+  expect(get(addTodo.state)).toBe('pending');
+  expect(get(todos)).toEqual(['a', 'b']);
+  expect(await pending).toBe('B');
+  expect(get(addTodo.state)).toBe('success');
+  expect(get(addTodo.result)).toBe('B');
+  expect(onSuccess).toHaveBeenCalledWith('B', 'b', 1);
+
+  const counts: number[] = [];
+  wave(() => {
+    counts.push(get(count));
+  });
+  addTodo.mutate('fail');
+  expect(get(todos)).toEqual(['a', 'b', 'fail']);
+  await waitForParticleValue(addTodo.state, 'error');
+  expect(get(todos)).toEqual(['a', 'b']);
+  expect(get(addTodo.error)).toEqual(new Error('boom'));
+  expect(get(addTodo.result)).toBe(null);
+  expect(onError).toHaveBeenCalledWith(new Error('boom'), 'fail', 2);
+  expect(counts).toEqual([2, 3, 2]);
+
+  addTodo.reset();
+  expect(get(addTodo.state)).toBe('idle');
+  expect(get(addTodo.error)).toBe(null);
+});
+
+test('mutation (superseded rollback)', async () => {
+  const value = atom(0);
+  const save = createMutation(
+    async (next: number) => {
+      await Bun.sleep(next === 1 ? 20 : 5);
+      if (next === 1) throw new Error('boom');
+      return next;
+    },
+    { onMutate: (next) => set(value, next) },
+  );
+
+  const first = save.mutateAsync(1);
+  await save.mutateAsync(2);
+  expect(get(value)).toBe(2);
+  await expect(first).rejects.toThrow('boom');
+  expect(get(value)).toBe(2);
+  expect(get(save.state)).toBe('success');
+});
+
+test('mutation (collections are not rolled back)', async () => {
+  const count = atom(0);
+  const items = atomArray([1, 2]);
+  const lengths = mock();
+  wave(() => {
+    lengths(items.length);
+  });
+  const save = createMutation(
+    async () => {
+      throw new Error('boom');
+    },
+    {
+      onMutate: () => {
+        set(count, 1);
+        items.push(3);
+      },
+    },
+  );
+
+  await expect(save.mutateAsync(undefined)).rejects.toThrow('boom');
+  expect(get(count)).toBe(0);
+  expect([...items]).toEqual([1, 2, 3]);
+  expect(items.length).toBe(3);
+  expect(lengths).toHaveBeenLastCalledWith(3);
+});
+
 test('reaction in react components', async () => {
   const resourceType = atom<'foo' | 'bar'>('foo');
   const reaction = createReaction(
@@ -1,16 +1,51 @@
-import { type Particle, async, atom, get, peek, set, wave } from '@/base';
+import {
+  type Particle,
+  async,
+  atom,
+  batch,
+  get,
+  molecule,
+  peek,
+  set,
+  wave,
+} from '@/base';
+import { registerDisposal } from '@/base/graph';
 import { createQuantumPair } from './quantum-pair';
+import type { QueryCache } from './query-cache';
+
+/**
+ * Defines the ReactionState type representing the state of a reaction's latest run.
+ */
+export type ReactionState =
+  | 'idle'
+  | 'pending'
+  | 'success'
+  | 'error'
+  | 'cancelled';
+
+/**
+ * Defines the ReactionContext type representing the context passed to a reaction's action.
+ *
+ * @property signal - An AbortSignal that is aborted once the run is superseded or cancelled.
+ */
+export type ReactionContext = {
+  signal: AbortSignal;
+};
 
 /**
  * Defines a Reaction type that represents a set of particles for result, error, and state,
- * along with methods to observe and unobserve the reaction.
+ * along with methods to observe and unobserve the reaction, to re-run it, and to cancel its pending run.
  */
 export type Reaction<Result> = {
   result: Particle<Result | null>;
   error: Particle<unknown | null>;
-  state: Particle<'idle' | 'pending' | 'success' | 'error'>;
+  state: Particle<ReactionState>;
+  attempt: Particle<number>;
   observe: () => void;
   unobserve: () => void;
+  refetch: () => void;
+  invalidate: () => void;
+  cancel: () => void;
 };
 
 /**
@@ -18,91 +53,279 @@ export type Reaction<Result> = {
  *
  * @property autoObserve - A boolean indicating whether the reaction should automatically observe itself.
  * @property keepPrevious - A boolean indicating whether the previous result or error should be kept.
+ * @property name - A name for the reaction, used for naming its particles and waves when debugging (e.g. `name.state`).
+ * @property retry - The number of times a failed action should be retried, or a function deciding whether to retry it given the number of failed attempts and the latest error (`0` by default).
+ * @property retryDelay - A function returning the delay (in milliseconds) before retrying, given the number of failed attempts and the latest error (an exponential backoff with jitter by default).
+ * @property timeout - The time (in milliseconds) after which an attempt is aborted and considered failed (no timeout by default).
+ * @property refetchInterval - The interval (in milliseconds) in which the reaction is refetched while it is observed (no polling by default).
+ * @property refetchOnFocus - A boolean indicating whether the reaction should be refetched when the window regains focus while it is observed.
+ * @property refetchOnReconnect - A boolean indicating whether the reaction should be refetched when the network comes back online while it is observed.
+ * @property cache - A {@link QueryCache} shared with other reactions, caching (and de-duplicating) the action's results by the trigger's value.
  */
 export type ReactionOptions = {
   autoObserve: boolean;
   keepPrevious: boolean;
+  name: string;
+  retry: number | ((failureCount: number, error: unknown) => boolean);
+  retryDelay: (failureCount: number, error: unknown) => number;
+  timeout: number;
+  refetchInterval: number;
+  refetchOnFocus: boolean;
+  refetchOnReconnect: boolean;
+  cache: QueryCache;
 };
 
+function exponentialBackoff(failureCount: number) {
+  return Math.random() * Math.min(1000 * 2 ** (failureCount - 1), 30_000);
+}
+
+function abortable<T>(promise: Promise<T>, signal: AbortSignal) {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+function delay(ms: number, signal: AbortSignal) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return abortable(
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, ms);
+    }),
+    signal,
+  ).finally(() => clearTimeout(timer));
+}
+
 /**
  * Creates a reaction that triggers an asynchronous action based on a given trigger particle.
  * The reaction manages the state of the action (idle, pending, success, error) and provides
  * particles for the result and error values.
  *
  * @param trigger The trigger particle that initiates the action.
- * @param action The asynchronous function to be executed when the trigger changes.
+ * @param action The asynchronous function to be executed when the trigger changes. It is passed the trigger's value, and a {@link ReactionContext}.
  * @param options Additional options for configuring the reaction ({@link ReactionOptions}).
  * @returns An {@link Reaction} object containing the result particle, error particle, state particle, and methods to observe/unobserve the reaction.
  */
 export function createReaction<Trigger, Result>(
   trigger: Particle<Trigger>,
-  action: (input: Trigger) => Promise<Result>,
-  { autoObserve = true, keepPrevious = false }: Partial<ReactionOptions> = {},
+  action: (input: Trigger, context: ReactionContext) => Promise<Result>,
+  {
+    autoObserve = true,
+    keepPrevious = false,
+    name,
+    retry = 0,
+    retryDelay = exponentialBackoff,
+    timeout = Number.POSITIVE_INFINITY,
+    refetchInterval = Number.POSITIVE_INFINITY,
+    refetchOnFocus = false,
+    refetchOnReconnect = false,
+    cache,
+  }: Partial<ReactionOptions> = {},
 ): Reaction<Result> {
-  const observerCount = atom(autoObserve ? 1 : 0);
-  const [state, setState] = createQuantumPair<
-    'idle' | 'pending' | 'success' | 'error'
-  >('idle');
-  const [result, setResult] = createQuantumPair<Result | null>(null);
-  const [error, setError] = createQuantumPair<unknown | null>(null);
-  let ctrl: AbortController | null = null;
-
-  wave(() => {
-    get(trigger);
-    setState('idle');
+  const nameOf = (part: string) => (name ? `${name}.${part}` : undefined);
+  const observerCount = atom(autoObserve ? 1 : 0, {
+    name: nameOf('observerCount'),
+  });
+  const [state, setState] = createQuantumPair<ReactionState>('idle', {
+    name: nameOf('state'),
+  });
+  const [result, setResult] = createQuantumPair<Result | null>(null, {
+    name: nameOf('result'),
   });
+  const [error, setError] = createQuantumPair<unknown | null>(null, {
+    name: nameOf('error'),
+  });
+  const [attempt, setAttempt] = createQuantumPair(0, {
+    name: nameOf('attempt'),
+  });
+  let ctrl = new AbortController();
+  let isRefetching = false;
+
+  wave(
+    () => {
+      get(trigger);
+      isRefetching = false;
+      setState('idle');
+    },
+    { name: nameOf('trigger') },
+  );
+
+  function shouldRetry(failureCount: number, e: unknown) {
+    return typeof retry === 'number'
+      ? failureCount <= retry
+      : retry(failureCount, e);
+  }
 
-  wave(() => {
-    const currentController = ctrl;
-    if (!get(observerCount)) return;
-    switch (get(state)) {
-      case 'idle':
-        if (ctrl) {
+  async function runAttempt(
+    input: Trigger,
+    signal: AbortSignal,
+    force: boolean,
+  ) {
+    const attemptController = new AbortController();
+    const abort = () => attemptController.abort(signal.reason);
+    signal.addEventListener('abort', abort, { once: true });
+    const timer = Number.isFinite(timeout)
+      ? setTimeout(() => {
+          attemptController.abort(
+            new DOMException('The operation timed out.', 'TimeoutError'),
+          );
+        }, timeout)
+      : undefined;
+    try {
+      return await abortable(
+        cache
+          ? cache.fetch(input, (signal) => action(input, { signal }), {
+              signal: attemptController.signal,
+              force,
+            })
+          : action(input, { signal: attemptController.signal }),
+        attemptController.signal,
+      );
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', abort);
+    }
+  }
+
+  async function runAction(
+    input: Trigger,
+    signal: AbortSignal,
+    force: boolean,
+  ) {
+    for (let currentAttempt = 1; ; currentAttempt++) {
+      setAttempt(currentAttempt);
+      try {
+        return await runAttempt(input, signal, force);
+      } catch (e) {
+        if (signal.aborted || !shouldRetry(currentAttempt, e)) throw e;
+        await delay(retryDelay(currentAttempt, e), signal);
+      }
+    }
+  }
+
+  wave(
+    () => {
+      const currentController = ctrl;
+      if (!get(observerCount)) return;
+      switch (get(state)) {
+        case 'idle':
           ctrl.abort();
-        }
-        ctrl = new AbortController();
-        setState('pending');
-        break;
-      case 'pending':
-        action(peek(trigger)).then(
-          (v) => {
-            if (currentController?.signal.aborted) {
-              return;
-            }
-            setResult(v);
-            setState('success');
-          },
-          (e) => {
-            if (currentController?.signal.aborted) {
-              return;
-            }
-            setError(e);
-            setState('error');
-          },
-        );
-        if (!keepPrevious) {
-          setResult(null);
+          ctrl = new AbortController();
+          setState('pending');
+          break;
+        case 'pending':
+          // refetches bypass the cache's fresh results
+          runAction(peek(trigger), currentController.signal, isRefetching).then(
+            (v) => {
+              if (currentController.signal.aborted) {
+                return;
+              }
+              setResult(v);
+              setState('success');
+            },
+            (e) => {
+              if (currentController.signal.aborted) {
+                return;
+              }
+              setError(e);
+              setState('error');
+            },
+          );
+          if (!keepPrevious && !isRefetching) {
+            setResult(null);
+            setError(null);
+          }
+          isRefetching = false;
+          break;
+        case 'success':
           setError(null);
-        }
-        break;
-      case 'success':
-        setError(null);
-        break;
-      case 'error':
-        setResult(null);
-        break;
-    }
-  }, async);
+          break;
+        case 'error':
+          setResult(null);
+          break;
+      }
+    },
+    { scheduler: async, name: nameOf('action') },
+  );
+
+  registerDisposal(() => ctrl.abort());
+
+  const isObserved = molecule(() => get(observerCount) > 0, {
+    name: nameOf('isObserved'),
+  });
+
+  function refetch() {
+    isRefetching = true;
+    setState('idle');
+  }
+
+  function invalidate() {
+    isRefetching = false;
+    setState('idle');
+  }
+
+  function poll() {
+    if (peek(state) !== 'pending') refetch();
+  }
+
+  wave(
+    () => {
+      if (!get(isObserved)) return;
+      const timer = Number.isFinite(refetchInterval)
+        ? setInterval(poll, refetchInterval)
+        : undefined;
+      if (refetchOnFocus) globalThis.addEventListener?.('focus', poll);
+      if (refetchOnReconnect) globalThis.addEventListener?.('online', poll);
+      return () => {
+        clearInterval(timer);
+        globalThis.removeEventListener?.('focus', poll);
+        globalThis.removeEventListener?.('online', poll);
+      };
+    },
+    { name: nameOf('polling') },
+  );
+
+  if (cache) {
+    wave(
+      () => {
+        if (!get(isObserved)) return;
+        return cache.subscribe(get(trigger), refetch);
+      },
+      { name: nameOf('cache') },
+    );
+  }
+
+  function cancel() {
+    if (peek(state) !== 'pending') return;
+    ctrl.abort();
+    setState('cancelled');
+  }
 
   return {
     result,
     error,
     state,
+    attempt,
     observe() {
-      set(observerCount, get(observerCount) + 1);
+      batch(() => {
+        if (!get(observerCount) && peek(state) === 'cancelled') {
+          setState('idle');
+        }
+        set(observerCount, get(observerCount) + 1);
+      });
     },
     unobserve() {
-      set(observerCount, get(observerCount) - 1);
+      batch(() => {
+        set(observerCount, get(observerCount) - 1);
+        if (!get(observerCount)) cancel();
+      });
     },
+    refetch,
+    invalidate,
+    cancel,
   };
 }
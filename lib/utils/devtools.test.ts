@@ -0,0 +1,101 @@
+import { afterEach, expect, mock, test } from 'bun:test';
+import { atom, batch, get, set } from '@/base';
+import { type DevtoolsExtension, connectDevtools } from './devtools';
+
+function createExtension() {
+  let listener: Parameters<
+    ReturnType<DevtoolsExtension['connect']>['subscribe']
+  >[0] = () => {};
+  const connection = {
+    init: mock(),
+    send: mock(),
+    subscribe: mock((fn: typeof listener) => {
+      listener = fn;
+      return () => {
+        listener = () => {};
+      };
+    }),
+  };
+  const extension = {
+    connect: mock(() => connection),
+  } satisfies DevtoolsExtension;
+  window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+  return {
+    extension,
+    connection,
+    dispatch: (...args: Parameters<typeof listener>) => listener(...args),
+  };
+}
+
+afterEach(() => {
+  window.__REDUX_DEVTOOLS_EXTENSION__ = undefined;
+});
+
+test('reports changes to named atoms', () => {
+  const { extension, connection } = createExtension();
+  const count = atom(0, { name: 'count' });
+  const text = atom('a', { name: 'text' });
+  const other = atom(0);
+
+  const disconnect = connectDevtools({ atoms: [count, text], name: 'app' });
+  expect(extension.connect).toHaveBeenCalledWith({ name: 'app' });
+  expect(connection.init).toHaveBeenCalledWith({ count: 0, text: 'a' });
+
+  set(count, 1);
+  expect(connection.send).toHaveBeenLastCalledWith(
+    { type: 'set count' },
+    { count: 1, text: 'a' },
+  );
+  set(count, 1);
+  set(other, 1);
+  expect(connection.send).toHaveBeenCalledTimes(1);
+
+  batch(() => {
+    set(text, 'b');
+  });
+  expect(connection.send).toHaveBeenLastCalledWith(
+    { type: 'set text' },
+    { count: 1, text: 'b' },
+  );
+
+  disconnect();
+  set(count, 2);
+  expect(connection.send).toHaveBeenCalledTimes(2);
+});
+
+test('time-travels', () => {
+  const { connection, dispatch } = createExtension();
+  const count = atom(0, { name: 'count' });
+  const text = atom('a', { name: 'text' });
+  connectDevtools({ atoms: [count, text] });
+  set(count, 5);
+
+  dispatch({
+    type: 'DISPATCH',
+    payload: { type: 'JUMP_TO_STATE' },
+    state: JSON.stringify({ count: 2, text: 'b' }),
+  });
+  expect(get(count)).toBe(2);
+  expect(get(text)).toBe('b');
+  expect(connection.send).toHaveBeenCalledTimes(1);
+
+  const nextLiftedState = {
+    computedStates: [
+      { state: { count: 0, text: 'a' } },
+      { state: { count: 7, text: 'c' } },
+    ],
+  };
+  dispatch({
+    type: 'DISPATCH',
+    payload: { type: 'IMPORT_STATE', nextLiftedState },
+  });
+  expect(get(count)).toBe(7);
+  expect(get(text)).toBe('c');
+  expect(connection.send).toHaveBeenLastCalledWith(null, nextLiftedState);
+});
+
+test('requires named atoms, and no-ops without the extension', () => {
+  expect(connectDevtools({ atoms: [atom(0)] })()).toBeUndefined();
+  createExtension();
+  expect(() => connectDevtools({ atoms: [atom(0)] })).toThrow();
+});
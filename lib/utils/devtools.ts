@@ -0,0 +1,131 @@
+import { type Atom, batch, getName, onParticleEvent, peek, set } from '@/base';
+
+type DevtoolsState = Record<string, unknown>;
+
+type DevtoolsMessage = {
+  type: string;
+  state?: string;
+  payload?: {
+    type: string;
+    nextLiftedState?: {
+      computedStates: { state: DevtoolsState }[];
+      currentStateIndex?: number;
+    };
+  };
+};
+
+type DevtoolsConnection = {
+  init: (state: DevtoolsState) => void;
+  send: (action: { type: string } | null, state: unknown) => void;
+  subscribe: (listener: (message: DevtoolsMessage) => void) => () => void;
+};
+
+/**
+ * Defines the DevtoolsExtension type representing the parts of the Redux DevTools extension's API in use.
+ */
+export type DevtoolsExtension = {
+  connect: (options: { name?: string }) => DevtoolsConnection;
+};
+
+/**
+ * Defines the DevtoolsOptions type representing options for connecting atoms to the Redux DevTools extension.
+ *
+ * @property atoms - The atoms to report to the extension. Every atom must be named (see `getName`), as its name is used as its key in the reported state.
+ * @property name - The name of the instance shown in the extension.
+ */
+export type DevtoolsOptions<T extends unknown[]> = {
+  atoms: { [K in keyof T]: Atom<T[K]> };
+  name?: string;
+};
+
+declare global {
+  var __REDUX_DEVTOOLS_EXTENSION__: DevtoolsExtension | undefined;
+}
+
+/**
+ * Connects the given atoms to the Redux DevTools extension, if it is installed.
+ * Every change to one of the atoms is reported as a `set <name>` action along with the new state of all the atoms,
+ * and the atoms are written back to when time-travelling (jumping to a state or an action, or importing a state).
+ *
+ * @param options The atoms to connect, and additional options ({@link DevtoolsOptions}).
+ * @returns A function that disconnects the atoms from the extension.
+ */
+export function connectDevtools<T extends unknown[]>({
+  atoms,
+  name,
+}: DevtoolsOptions<T>): () => void {
+  const extension = globalThis.__REDUX_DEVTOOLS_EXTENSION__;
+  if (!extension) return () => {};
+
+  const namedAtoms = new Map<Atom<unknown>, string>();
+  for (const atm of atoms) {
+    const atomName = getName(atm);
+    if (atomName === undefined) {
+      throw new Error('connectDevtools: every atom must be given a name');
+    }
+    namedAtoms.set(atm as Atom<unknown>, atomName);
+  }
+
+  function getState(): DevtoolsState {
+    const state: DevtoolsState = {};
+    for (const [atm, atomName] of namedAtoms) {
+      state[atomName] = peek(atm);
+    }
+    return state;
+  }
+
+  let isApplying = false;
+  function applyState(state: DevtoolsState) {
+    isApplying = true;
+    try {
+      batch(() => {
+        for (const [atm, atomName] of namedAtoms) {
+          if (atomName in state) {
+            set(atm, state[atomName]);
+          }
+        }
+      });
+    } finally {
+      isApplying = false;
+    }
+  }
+
+  const devtools = extension.connect({ name });
+  devtools.init(getState());
+
+  const stopListening = onParticleEvent(({ type, particle }) => {
+    if (type !== 'write' || isApplying) return;
+    const atomName = namedAtoms.get(particle as Atom<unknown>);
+    if (atomName === undefined) return;
+    devtools.send({ type: `set ${atomName}` }, getState());
+  });
+
+  const unsubscribe = devtools.subscribe((message) => {
+    if (message.type !== 'DISPATCH') return;
+    switch (message.payload?.type) {
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION':
+        if (message.state !== undefined) {
+          applyState(JSON.parse(message.state));
+        }
+        break;
+      case 'IMPORT_STATE': {
+        const liftedState = message.payload.nextLiftedState;
+        if (!liftedState) break;
+        const { computedStates, currentStateIndex } = liftedState;
+        const current =
+          computedStates[currentStateIndex ?? computedStates.length - 1];
+        if (current) {
+          applyState(current.state);
+        }
+        devtools.send(null, liftedState);
+        break;
+      }
+    }
+  });
+
+  return () => {
+    stopListening();
+    unsubscribe();
+  };
+}
@@ -0,0 +1,68 @@
+import { expect, test } from 'bun:test';
+import { atom, batch, get, set } from '@/base';
+import { withHistory } from './history';
+
+test('undo/redo', () => {
+  const text = atom('');
+  const bold = atom(false);
+  const history = withHistory([text, bold]);
+
+  expect(get(history.canUndo)).toBeFalse();
+  set(text, 'hello');
+  batch(() => {
+    set(text, 'hello world');
+    set(bold, true);
+  });
+  expect(get(history.canUndo)).toBeTrue();
+
+  history.undo();
+  expect(get(text)).toBe('hello');
+  expect(get(bold)).toBeFalse();
+  expect(get(history.canRedo)).toBeTrue();
+
+  history.undo();
+  expect(get(text)).toBe('');
+  expect(get(history.canUndo)).toBeFalse();
+
+  history.redo();
+  history.redo();
+  expect(get(text)).toBe('hello world');
+  expect(get(bold)).toBeTrue();
+  expect(get(history.canRedo)).toBeFalse();
+
+  history.undo();
+  set(text, 'goodbye');
+  expect(get(history.canRedo)).toBeFalse();
+  history.undo();
+  expect(get(text)).toBe('hello');
+});
+
+test('history limit', () => {
+  const count = atom(0);
+  const history = withHistory([count], { limit: 2 });
+
+  set(count, 1);
+  set(count, 2);
+  set(count, 3);
+  history.undo();
+  history.undo();
+  history.undo();
+  expect(get(count)).toBe(1);
+  expect(get(history.canUndo)).toBeFalse();
+
+  const disabled = withHistory([count], { limit: 0 });
+  set(count, 4);
+  expect(get(disabled.canUndo)).toBeFalse();
+});
+
+test('history dispose', () => {
+  const count = atom(0);
+  const history = withHistory([count]);
+
+  set(count, 1);
+  history.dispose();
+  set(count, 2);
+  history.undo();
+  expect(get(count)).toBe(0);
+  expect(get(history.canUndo)).toBeFalse();
+});
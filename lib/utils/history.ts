@@ -0,0 +1,99 @@
+import {
+  type Atom,
+  type Particle,
+  atom,
+  batch,
+  get,
+  molecule,
+  peek,
+  set,
+  wave,
+} from '@/base';
+
+/**
+ * Defines a History type that represents the undo/redo history of a set of atoms.
+ */
+export type History = {
+  undo: () => void;
+  redo: () => void;
+  canUndo: Particle<boolean>;
+  canRedo: Particle<boolean>;
+  dispose: () => void;
+};
+
+/**
+ * Defines the HistoryOptions type representing options for tracking the history of atoms.
+ *
+ * @property limit - The maximum number of entries that can be undone (unlimited by default). A limit of `0` (or less) keeps no entries.
+ */
+export type HistoryOptions = {
+  limit: number;
+};
+
+/**
+ * Tracks the history of the given atoms, so that changes to them can be undone and redone.
+ * Every change propagated by the atoms is a single history entry, so a batch of `set` calls (see `batch`) is undone at once.
+ *
+ * @param atoms The atoms whose history should be tracked.
+ * @param options Additional options for configuring the history ({@link HistoryOptions}).
+ * @returns A {@link History} object with methods to undo/redo changes and to stop tracking them, and particles indicating whether they are possible.
+ */
+export function withHistory<T extends unknown[]>(
+  atoms: { [K in keyof T]: Atom<T[K]> },
+  { limit = Number.POSITIVE_INFINITY }: Partial<HistoryOptions> = {},
+): History {
+  const past = atom<T[]>([]);
+  const future = atom<T[]>([]);
+  let present = atoms.map(peek) as T;
+
+  function isPresent(values: unknown[]) {
+    return values.every((value, index) => value === present[index]);
+  }
+
+  function travelTo(values: T) {
+    present = values;
+    batch(() => {
+      atoms.forEach((atm, index) => set(atm, values[index]));
+    });
+  }
+
+  const dispose = wave(() => {
+    const values = atoms.map(get) as T;
+    if (isPresent(values)) return;
+    const entry = present;
+    present = values;
+    batch(() => {
+      set(past, (entries) =>
+        limit > 0 ? [...entries, entry].slice(-limit) : [],
+      );
+      set(future, []);
+    });
+  });
+
+  return {
+    undo() {
+      const entries = peek(past);
+      const previous = entries[entries.length - 1];
+      if (!previous) return;
+      const current = present;
+      batch(() => {
+        set(past, entries.slice(0, -1));
+        set(future, (entries) => [current, ...entries]);
+        travelTo(previous);
+      });
+    },
+    redo() {
+      const [next, ...entries] = peek(future);
+      if (!next) return;
+      const current = present;
+      batch(() => {
+        set(future, entries);
+        set(past, (entries) => [...entries, current]);
+        travelTo(next);
+      });
+    },
+    canUndo: molecule(() => get(past).length > 0),
+    canRedo: molecule(() => get(future).length > 0),
+    dispose,
+  };
+}
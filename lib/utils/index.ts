@@ -1,2 +1,5 @@
 export * from './simple-store';
 export * from './as-iterable';
+export * from './history';
+export * from './persisted-atom';
+export * from './devtools';
@@ -0,0 +1,95 @@
+import { expect, mock, test } from 'bun:test';
+import { get, set, wave } from '@/base';
+import { persistedAtom } from './persisted-atom';
+
+function createStorage(entries: Record<string, string> = {}) {
+  const items = new Map(Object.entries(entries));
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+  };
+}
+
+test('hydrates and writes through', () => {
+  const storage = createStorage({
+    theme: JSON.stringify({ version: 0, value: 'dark' }),
+  });
+  const theme = persistedAtom('theme', 'light', { storage });
+
+  expect(get(theme)).toBe('dark');
+  set(theme, 'solarized');
+  expect(get(theme)).toBe('solarized');
+  expect(JSON.parse(storage.getItem('theme') ?? '')).toEqual({
+    version: 0,
+    value: 'solarized',
+  });
+
+  const fresh = persistedAtom('fresh', 'light', { storage });
+  expect(get(fresh)).toBe('light');
+});
+
+test('migrates older versions', () => {
+  const storage = createStorage({
+    user: JSON.stringify({ version: 1, value: 'Alice' }),
+  });
+  const user = persistedAtom(
+    'user',
+    { name: '' },
+    {
+      storage,
+      version: 2,
+      migrate: (value, version) => {
+        expect(version).toBe(1);
+        return { name: value as string };
+      },
+    },
+  );
+
+  expect(get(user)).toEqual({ name: 'Alice' });
+  expect(JSON.parse(storage.getItem('user') ?? '')).toEqual({
+    version: 2,
+    value: { name: 'Alice' },
+  });
+
+  const discarded = persistedAtom('user', 'default', { storage, version: 3 });
+  expect(get(discarded)).toBe('default');
+});
+
+test('syncs across tabs', () => {
+  const storage = createStorage();
+  const count = persistedAtom('count', 0, { storage });
+  const m = mock();
+  wave(() => {
+    m(get(count));
+  });
+
+  storage.setItem('count', JSON.stringify({ version: 0, value: 5 }));
+  window.dispatchEvent(new StorageEvent('storage', { key: 'count' }));
+  expect(m).toHaveBeenLastCalledWith(5);
+
+  storage.setItem('other', JSON.stringify({ version: 0, value: 6 }));
+  window.dispatchEvent(new StorageEvent('storage', { key: 'other' }));
+  expect(m).toHaveBeenCalledTimes(2);
+});
+
+test('falls back to the initial value without a storage', () => {
+  // simulating an environment without localStorage (e.g. the server)
+  const descriptor = Object.getOwnPropertyDescriptor(
+    globalThis,
+    'localStorage',
+  );
+  Object.defineProperty(globalThis, 'localStorage', {
+    value: undefined,
+    configurable: true,
+  });
+  try {
+    const theme = persistedAtom('theme', 'light');
+    expect(get(theme)).toBe('light');
+    set(theme, 'dark');
+    expect(get(theme)).toBe('dark');
+  } finally {
+    Object.defineProperty(globalThis, 'localStorage', descriptor ?? {});
+  }
+});
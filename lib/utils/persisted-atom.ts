@@ -0,0 +1,89 @@
+import { type Atom, type ParticleOptions, atom, synth } from '@/base';
+import { SimpleStore } from './simple-store';
+
+type PersistedValue = { version: number; value: unknown };
+
+/**
+ * Defines the PersistedAtomOptions type representing options for creating a persisted atom.
+ *
+ * @property storage - The storage to persist the atom's value in (`localStorage` by default). Without one (e.g. on the server), the value is not persisted.
+ * @property serializer - The serializer used to convert the persisted value to and from a string (`JSON` by default).
+ * @property version - The version of the persisted value's schema (`0` by default).
+ * @property migrate - A function converting a value persisted with an older version of the schema to the current one (values persisted with other versions are discarded by default).
+ */
+export type PersistedAtomOptions<T> = ParticleOptions<T> & {
+  storage: Pick<Storage, 'getItem' | 'setItem'>;
+  serializer: {
+    stringify: (value: PersistedValue) => string;
+    parse: (text: string) => PersistedValue;
+  };
+  version: number;
+  migrate: (persistedValue: unknown, persistedVersion: number) => T;
+};
+
+/**
+ * Creates an {@link Atom} whose value is persisted in a storage (e.g. `localStorage`) under the given key.
+ * The atom is hydrated from the storage on creation (migrating values persisted with an older schema version),
+ * writes through to the storage on `set`, and syncs with changes made to the storage by other tabs.
+ *
+ * @param key The key to persist the atom's value under.
+ * @param initialValue The value of the atom if no (usable) value was persisted.
+ * @param options Additional options for configuring the persisted atom ({@link PersistedAtomOptions}).
+ * @returns An {@link Atom} object with read and write capabilities.
+ */
+export function persistedAtom<T>(
+  key: string,
+  initialValue: T,
+  {
+    storage = globalThis.localStorage,
+    serializer = JSON,
+    version = 0,
+    migrate,
+    ...options
+  }: Partial<PersistedAtomOptions<T>> = {},
+): Atom<T> {
+  if (!storage) return atom(initialValue, options);
+
+  function persist(value: T) {
+    storage.setItem(key, serializer.stringify({ version, value }));
+  }
+
+  function hydrate(): T {
+    const text = storage.getItem(key);
+    if (text === null) return initialValue;
+    try {
+      const persisted = serializer.parse(text);
+      if (persisted.version === version) return persisted.value as T;
+      if (!migrate) return initialValue;
+      const value = migrate(persisted.value, persisted.version);
+      persist(value);
+      return value;
+    } catch {
+      return initialValue;
+    }
+  }
+
+  const store = new SimpleStore(hydrate());
+
+  function subscribe(listener: () => void) {
+    store.update(hydrate());
+    const unsubscribe = store.subscribe(listener);
+    const onStorage = (event: StorageEvent) => {
+      if (event.storageArea && event.storageArea !== storage) return;
+      if (event.key !== null && event.key !== key) return;
+      store.update(hydrate());
+    };
+    globalThis.addEventListener?.('storage', onStorage);
+    return () => {
+      unsubscribe();
+      globalThis.removeEventListener?.('storage', onStorage);
+    };
+  }
+
+  function sendUpdate(value: T) {
+    persist(value);
+    store.update(value);
+  }
+
+  return synth(subscribe, store.getCurrent, sendUpdate, options);
+}
@@ -3,6 +3,7 @@ import { defineConfig } from 'tsup';
 export default defineConfig({
   entry: [
     'lib/base/index.ts',
+    'lib/observables/index.ts',
     'lib/react/index.tsx',
     'lib/reaction/index.ts',
     'lib/utils/index.ts',